@@ -74,6 +74,9 @@ app.use(
     receiver: REGISTERED_RESOURCE.receiver,
     domain: REGISTERED_RESOURCE.domain, // Must match registry registration exactly
     resourceEntryId: REGISTERED_RESOURCE.resourceEntryId, // Optional: optimization cache
+    // Sign 402 challenges with the receiver wallet: PaywallClient refuses
+    // unsigned challenges unless it sets requireSignedChallenges: false
+    challengeSigningKey: process.env.RECEIVER_PRIVATE_KEY,
     // Note: If resourceEntryId is not provided, middleware will automatically
     // query the registry on-chain to find the ResourceEntry by domain/resource.
     // This allows you to add new content without changing code!
@@ -0,0 +1,69 @@
+// Fastify adapter
+
+import { PaywallContext, PaywallOptions } from '../types';
+import { PaywallCore } from '../core';
+
+/**
+ * Fastify request fields used by the paywall
+ */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Parsed body (used for signatures when it is a string or Buffer) */
+  body?: unknown;
+  /** Raw body, e.g. from fastify-raw-body */
+  rawBody?: string | Buffer;
+  paywall?: PaywallContext;
+}
+
+/**
+ * Fastify reply methods used by the paywall
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  type(contentType: string): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+/**
+ * Create a Fastify preHandler hook
+ *
+ * @example
+ * ```javascript
+ * fastify.addHook('preHandler', fastifyPaywall({ price: '0.01', receiver: '0x...', domain: 'www.example.com' }));
+ * fastify.get('/premium', async (request) => Buffer.from(request.paywall.encryptedBlob));
+ * ```
+ */
+export function fastifyPaywall(options: PaywallOptions) {
+  const core = new PaywallCore(options);
+
+  return async (request: FastifyRequestLike, reply: FastifyReplyLike) => {
+    const decision = await core.evaluate({
+      method: request.method,
+      path: request.url,
+      headers: request.headers,
+      body:
+        request.rawBody ??
+        (Buffer.isBuffer(request.body) || typeof request.body === 'string' ? request.body : undefined),
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      reply.header(name, value);
+    }
+
+    if (decision.type !== 'allow') {
+      return reply.code(decision.status).send(decision.body);
+    }
+
+    request.paywall = decision.paywall;
+
+    // Serve decrypted content
+    if (decision.decryptedData) {
+      return reply.code(200).type('application/octet-stream').send(Buffer.from(decision.decryptedData));
+    }
+
+    // Continue to the route handler
+  };
+}
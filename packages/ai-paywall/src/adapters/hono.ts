@@ -0,0 +1,67 @@
+// Hono adapter (Node, Bun, Deno and edge runtimes)
+
+import { PaywallContext, PaywallOptions } from '../types';
+import { PaywallCore, readFetchBody } from '../core';
+
+/**
+ * Hono context fields used by the paywall
+ */
+export interface HonoContextLike {
+  req: {
+    method: string;
+    path: string;
+    url: string;
+    raw: {
+      method: string;
+      headers: { get(name: string): string | null };
+      clone(): { arrayBuffer(): Promise<ArrayBuffer> };
+    };
+  };
+  header(name: string, value: string): void;
+  set(key: 'paywall', value: PaywallContext): void;
+}
+
+/**
+ * Create Hono middleware
+ * Verified access details are available via c.get('paywall')
+ *
+ * @example
+ * ```javascript
+ * app.use('/premium/*', honoPaywall({ price: '0.01', receiver: '0x...', domain: 'www.example.com' }));
+ * app.get('/premium/data', (c) => c.body(c.get('paywall').encryptedBlob));
+ * ```
+ */
+export function honoPaywall(options: PaywallOptions) {
+  const core = new PaywallCore(options);
+
+  return async (c: HonoContextLike, next: () => Promise<void>): Promise<Response | void> => {
+    const decision = await core.evaluate({
+      method: c.req.method,
+      path: c.req.path,
+      headers: c.req.raw.headers,
+      query: new URL(c.req.url).search,
+      body: await readFetchBody(c.req.raw),
+    });
+
+    if (decision.type !== 'allow') {
+      return new Response(JSON.stringify(decision.body), {
+        status: decision.status,
+        headers: { ...decision.headers, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Serve decrypted content
+    if (decision.decryptedData) {
+      return new Response(decision.decryptedData, {
+        status: 200,
+        headers: { ...decision.headers, 'Content-Type': 'application/octet-stream' },
+      });
+    }
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      c.header(name, value);
+    }
+    c.set('paywall', decision.paywall);
+    await next();
+  };
+}
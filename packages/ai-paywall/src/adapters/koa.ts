@@ -0,0 +1,67 @@
+// Koa adapter
+
+import { PaywallContext, PaywallOptions } from '../types';
+import { PaywallCore } from '../core';
+
+/**
+ * Koa context fields used by the paywall
+ */
+export interface KoaContextLike {
+  method: string;
+  path: string;
+  querystring?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Raw body, e.g. from koa-bodyparser */
+  request?: { rawBody?: string };
+  status: number;
+  body: unknown;
+  type: string;
+  state: { paywall?: PaywallContext; [key: string]: unknown };
+  set(name: string, value: string): void;
+}
+
+/**
+ * Create Koa middleware
+ *
+ * @example
+ * ```javascript
+ * router.get('/premium', koaPaywall({ price: '0.01', receiver: '0x...', domain: 'www.example.com' }), (ctx) => {
+ *   ctx.body = Buffer.from(ctx.state.paywall.encryptedBlob);
+ * });
+ * ```
+ */
+export function koaPaywall(options: PaywallOptions) {
+  const core = new PaywallCore(options);
+
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>) => {
+    const decision = await core.evaluate({
+      method: ctx.method,
+      path: ctx.path,
+      headers: ctx.headers,
+      query: ctx.querystring,
+      body: ctx.request?.rawBody,
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      ctx.set(name, value);
+    }
+
+    if (decision.type !== 'allow') {
+      ctx.status = decision.status;
+      ctx.body = decision.body;
+      return;
+    }
+
+    ctx.state.paywall = decision.paywall;
+
+    // Serve decrypted content
+    if (decision.decryptedData) {
+      ctx.status = 200;
+      ctx.type = 'application/octet-stream';
+      ctx.body = Buffer.from(decision.decryptedData);
+      return;
+    }
+
+    await next();
+  };
+}
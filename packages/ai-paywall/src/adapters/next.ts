@@ -0,0 +1,101 @@
+// Next.js App Router adapter (Node and edge runtimes)
+
+import { PaywallContext, PaywallOptions } from '../types';
+import { PaywallCore, readFetchBody } from '../core';
+
+/**
+ * Request fields used by the paywall
+ * NextRequest matches this, as does any Fetch API Request
+ */
+export interface NextRequestLike {
+  method: string;
+  url: string;
+  headers: { get(name: string): string | null };
+  nextUrl?: { pathname: string; search?: string };
+  clone(): { arrayBuffer(): Promise<ArrayBuffer> };
+}
+
+/**
+ * Route handler protected by withPaywall
+ * Receives the verified access details as a third argument
+ */
+export type PaywalledRouteHandler<Req extends NextRequestLike, Ctx> = (
+  request: Req,
+  context: Ctx,
+  paywall: PaywallContext
+) => Response | Promise<Response>;
+
+/**
+ * Wrap a Next.js route handler with the paywall
+ *
+ * - No or invalid headers: responds with the same 402 / 403 JSON as the Express middleware
+ * - Decrypted server-side (x-session-key): responds with the decrypted bytes
+ * - Otherwise: calls the handler with the encrypted blob and ResourceEntry in `paywall`
+ *
+ * Avoids Node-only APIs so it works with `export const runtime = 'edge'`.
+ *
+ * @example
+ * ```typescript
+ * export const GET = withPaywall(async (req, ctx, paywall) => {
+ *   return new NextResponse(paywall.encryptedBlob);
+ * }, { price: '0.01', receiver: '0x...', domain: 'www.example.com' });
+ * ```
+ */
+export function withPaywall<Req extends NextRequestLike, Ctx = unknown>(
+  handler: PaywalledRouteHandler<Req, Ctx>,
+  options: PaywallOptions
+) {
+  const core = new PaywallCore(options);
+
+  return async (request: Req, context: Ctx): Promise<Response> => {
+    const decision = await core.evaluate({
+      method: request.method,
+      path: request.nextUrl?.pathname ?? new URL(request.url).pathname,
+      headers: request.headers,
+      query: request.nextUrl?.search ?? new URL(request.url).search,
+      body: await readFetchBody(request),
+    });
+
+    if (decision.type !== 'allow') {
+      return new Response(JSON.stringify(decision.body), {
+        status: decision.status,
+        headers: { ...decision.headers, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Serve decrypted content
+    if (decision.decryptedData) {
+      return new Response(decision.decryptedData, {
+        status: 200,
+        headers: { ...decision.headers, 'Content-Type': 'application/octet-stream' },
+      });
+    }
+
+    const response = await handler(request, context, decision.paywall);
+    return withHeaders(response, decision.headers);
+  };
+}
+
+/**
+ * Add paywall headers to the handler's response
+ * (responses from fetch() or Response.redirect() have immutable headers)
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const entries = Object.entries(headers);
+  if (entries.length === 0) {
+    return response;
+  }
+
+  try {
+    for (const [name, value] of entries) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    for (const [name, value] of entries) {
+      copy.headers.set(name, value);
+    }
+    return copy;
+  }
+}
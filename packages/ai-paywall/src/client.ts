@@ -1,90 +1,402 @@
 // Sui client for bot/client SDK
 // Handles automatic coin splitting and payment
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui.js/client';
+import {
+  SuiClient,
+  SuiTransactionBlockResponse,
+  SuiTransactionBlockResponseOptions,
+} from '@mysten/sui.js/client';
 import { TransactionBlock } from '@mysten/sui.js/transactions';
-import { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';
-import { fromB64, toB64 } from '@mysten/sui.js/utils';
-import { bech32 } from 'bech32';
-import { PaymentChallenge } from './types';
-import contractConfig from './config/contract.json';
+import { toB64, normalizeSuiAddress } from '@mysten/sui.js/utils';
+import { PaymentChallenge, PaywallClientOptions } from './types';
+import { createSignMessage, createSignedRequest, SignedRequest } from './utils/signature';
+import { createSuiClient, createSealSuiClient, fetchResourceEntry, fetchAccessPass } from './utils/sui';
+import { verifyChallengeSignature } from './utils/challenge';
+import { ChallengeVerificationError } from './errors';
+import { SpendingPolicy } from './utils/spending';
+import { PassStore, StoredPass, MemoryPassStore, isStoredPassUsable } from './utils/passes';
+import { X402_VERSION, SUI_EXACT_SCHEME, encodePaymentHeader } from './utils/x402';
+import { NetworkConfig, resolveNetworkConfig } from './config/networks';
+import { Signer, KeypairSigner } from './signer';
+import { PaywallLogger } from './utils/logger';
 // Seal imports for decryption (following seal/examples pattern)
 import { SealClient, SessionKey, EncryptedObject } from '@mysten/seal';
-import { SuiClient as SealSuiClient, getFullnodeUrl as getSealFullnodeUrl } from '@mysten/sui/client';
+import { SuiClient as SealSuiClient } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
 import { fromHex, toHex, toB64 as toB64Seal } from '@mysten/sui/utils';
 
-// Seal server object IDs for testnet (from seal/examples)
-const SEAL_SERVER_OBJECT_IDS = [
-  "0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75",
-  "0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8",
-];
 
-// Constants for Sui private key format
-const SUI_PRIVATE_KEY_PREFIX = 'suiprivkey';
-const SIGNATURE_FLAG_TO_SCHEME: Record<number, 'ED25519' | 'Secp256k1' | 'Secp256r1'> = {
-  0: 'ED25519',
-  1: 'Secp256k1',
-  2: 'Secp256r1',
-};
+// Uses bought when the challenge does not advertise maxUses
+const DEFAULT_PASS_USES = 10;
+
+// How often stored passes are re-read from the chain (5 minutes)
+const DEFAULT_PASS_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Normalize a resource path (remove trailing slash except for root)
+ */
+function normalizePassResource(resource: string): string {
+  return resource === '/' ? '/' : resource.replace(/\/$/, '');
+}
+
+/**
+ * Uses and expiry to buy a pass with (route terms from the challenge when present)
+ */
+function passTerms(challenge: PaymentChallenge): { remaining: number; expiry: number } {
+  return {
+    remaining: challenge.maxUses ?? DEFAULT_PASS_USES,
+    expiry: challenge.validityMs ? Date.now() + challenge.validityMs : 0, // 0 = no expiry
+  };
+}
+
+/**
+ * `fetch` options plus how to pay on x402 servers
+ */
+export interface PaywallFetchInit extends RequestInit {
+  /** Send a new purchase with the retried request when the server supports x402 (default: true) */
+  payInRequest?: boolean;
+}
+
+/**
+ * Payment headers prepared for one 402 challenge
+ * Send `headers` with the retried request, then pass the response to completePayment()
+ */
+export interface PaymentAttempt {
+  challenge: PaymentChallenge;
+  /** Normalized resource path */
+  resource: string;
+  /** Pass the headers prove (reported by the server after a pay-in-request purchase) */
+  accessPassId: string | null;
+  payInRequest: boolean;
+  /** Uses and expiry of a pass bought with the request */
+  purchaseTerms: { remaining: number; expiry: number };
+  headers: Record<string, string>;
+  /**
+   * Give back the pass use (or pending purchase) held for this request
+   * Called by completePayment(); call it yourself when the paid request fails
+   */
+  release: () => void;
+}
+
+/**
+ * Whether a 402 body is a paywall payment challenge (other 402s are not paid)
+ */
+export function isPaymentChallenge(body: unknown): body is PaymentChallenge {
+  const challenge = body as PaymentChallenge | null;
+  return (
+    !!challenge &&
+    typeof challenge === 'object' &&
+    challenge.paymentRequired === true &&
+    !!challenge.domain &&
+    !!challenge.resource
+  );
+}
+
+/**
+ * Create a standalone `fetch` that pays through a PaywallClient
+ * For libraries and tool frameworks that take a fetch implementation
+ */
+export function createPaywallFetch(
+  client: PaywallClient
+): (input: string | URL | Request, init?: PaywallFetchInit) => Promise<Response> {
+  return (input, init) => client.fetch(input, init);
+}
 
 /**
  * Client SDK for AI bots to purchase AccessPass
  */
 export class PaywallClient {
   private client: SuiClient;
-  private keypair: Ed25519Keypair;
-
-  constructor(options: {
-    privateKey: string; // Sui bech32 format (suiprivkey1...), base64, or hex string
-    rpcUrl?: string;
-  }) {
-    this.client = new SuiClient({
-      url: options.rpcUrl || contractConfig.rpcUrl,
-    });
+  private sealSuiClient: SealSuiClient;
+  private signer: Signer;
+  private network: NetworkConfig;
+  private requireSignedChallenges: boolean;
+  private trustedChallengeSigners: string[];
+  private spendingPolicy: SpendingPolicy | null;
+  private passStore: PassStore;
+  private passSyncIntervalMs: number;
+  private passSyncTimer: ReturnType<typeof setInterval> | null = null;
+  private logger: PaywallLogger;
+  /** Uses of passes held by requests in flight (pass ID -> count) */
+  private heldUses = new Map<string, number>();
+  /** Purchases in flight per domain/resource, settled once the new pass can be used */
+  private pendingPurchases = new Map<string, Promise<void>>();
+
+  constructor(options: PaywallClientOptions) {
+    this.logger =
+      options.logger instanceof PaywallLogger
+        ? options.logger
+        : new PaywallLogger(options.logger, { redact: options.redactLogFields });
+    this.network = resolveNetworkConfig(options.network);
+    this.requireSignedChallenges = options.requireSignedChallenges !== false;
+    this.trustedChallengeSigners = (options.trustedChallengeSigners || []).map((address) =>
+      normalizeSuiAddress(address)
+    );
+    // No policy: every challenge is paid (as before)
+    this.spendingPolicy = !options.spendingPolicy
+      ? null
+      : options.spendingPolicy instanceof SpendingPolicy
+      ? options.spendingPolicy
+      : new SpendingPolicy(options.spendingPolicy);
+    this.passStore = options.passStore || new MemoryPassStore();
+    this.passSyncIntervalMs = options.passSyncIntervalMs ?? DEFAULT_PASS_SYNC_INTERVAL_MS;
+    const rpcUrl = options.rpcUrl || this.network.rpcUrl;
+    this.client = options.suiClient || createSuiClient(rpcUrl, options.transport);
+    this.sealSuiClient = options.sealSuiClient || createSealSuiClient(rpcUrl, options.transport);
     
-    // Initialize keypair from private key
-    // Supports multiple formats: Sui bech32 (suiprivkey1...), base64, or hex
+    // Signer: injected (KMS, remote signer) or built from a private key
+    // Private keys: Sui bech32 (suiprivkey1..., any scheme), base64 or hex (Ed25519)
+    if (options.signer) {
+      this.signer = options.signer;
+    } else if (options.privateKey) {
+      try {
+        this.signer = KeypairSigner.fromPrivateKey(options.privateKey);
+      } catch (error) {
+        throw new Error(`Failed to initialize keypair from private key: ${error instanceof Error ? error.message : 'Unknown error'}. Supported formats: suiprivkey1..., base64, or hex.`);
+      }
+    } else {
+      throw new Error('Either signer or privateKey is required');
+    }
+
+    // Keep stored passes in step with the chain (does not keep the process alive)
+    if (this.passSyncIntervalMs > 0) {
+      this.passSyncTimer = setInterval(() => {
+        this.syncPasses().catch((error) =>
+          this.logger.error('Pass sync failed', { error })
+        );
+      }, this.passSyncIntervalMs);
+      this.passSyncTimer.unref?.();
+    }
+  }
+
+  /**
+   * Address of the wallet paying for passes
+   */
+  get address(): string {
+    return this.signer.address;
+  }
+
+  /**
+   * Build, sign with the configured signer and execute a transaction
+   */
+  private async executeTransaction(input: {
+    transactionBlock: TransactionBlock;
+    options?: SuiTransactionBlockResponseOptions;
+  }): Promise<SuiTransactionBlockResponse> {
+    input.transactionBlock.setSenderIfNotSet(this.signer.address);
+    const txBytes = await input.transactionBlock.build({ client: this.client });
+    const { bytes, signature } = await this.signer.signTransaction(txBytes);
+    return this.client.executeTransactionBlock({
+      transactionBlock: bytes,
+      signature,
+      options: input.options,
+    });
+  }
+
+  /**
+   * Stop the background pass sync
+   */
+  close(): void {
+    if (this.passSyncTimer) {
+      clearInterval(this.passSyncTimer);
+      this.passSyncTimer = null;
+    }
+  }
+
+  /**
+   * Find existing AccessPass for a domain/resource owned by this wallet
+   * Returns the AccessPass object ID if found, null otherwise
+   *
+   * The pass store is consulted first; passes not synced within the sync interval
+   * are re-read from the chain before use. Only when the store has no usable pass
+   * are recent PassPurchased events scanned (for passes bought elsewhere).
+   * Uses held by requests in flight do not count as available.
+   */
+  async findExistingAccessPass(domain: string, resource: string): Promise<string | null> {
+    return (await this.findUsablePass(domain, resource))?.passId ?? null;
+  }
+
+  private async findUsablePass(domain: string, resource: string): Promise<StoredPass | null> {
+    const ownerAddress = this.signer.address;
+    const normalizedResource = normalizePassResource(resource);
+
     try {
-      // Try Sui bech32 format first (suiprivkey1...)
-      if (options.privateKey.startsWith(SUI_PRIVATE_KEY_PREFIX)) {
-        // Decode bech32 format manually
-        const { prefix, words } = bech32.decode(options.privateKey);
-        if (prefix !== SUI_PRIVATE_KEY_PREFIX) {
-          throw new Error('Invalid private key prefix');
+      const stored = (await this.passStore.find(ownerAddress, domain, normalizedResource))
+        .filter((pass) => this.isPassAvailable(pass))
+        .sort((a, b) => b.purchasedAt - a.purchasedAt);
+
+      for (const pass of stored) {
+        const fresh =
+          this.passSyncIntervalMs > 0 && Date.now() - pass.syncedAt < this.passSyncIntervalMs
+            ? pass
+            : await this.syncPass(pass);
+        if (fresh && this.isPassAvailable(fresh)) {
+          this.logger.info('Using stored AccessPass', { passId: fresh.passId, remaining: fresh.remaining });
+          return fresh;
         }
-        const extendedSecretKey = new Uint8Array(bech32.fromWords(words));
-        const secretKey = extendedSecretKey.slice(1); // Skip the flag byte
-        const signatureScheme = SIGNATURE_FLAG_TO_SCHEME[extendedSecretKey[0]];
-        
-        if (signatureScheme !== 'ED25519') {
-          throw new Error(`Unsupported signature scheme: ${signatureScheme}. Only ED25519 is supported.`);
-        }
-        
-        this.keypair = Ed25519Keypair.fromSecretKey(secretKey);
+      }
+    } catch (error) {
+      this.logger.error('Could not read the pass store', { error });
+    }
+
+    const passId = await this.scanPurchaseEvents(domain, normalizedResource);
+    if (!passId) {
+      return null;
+    }
+    const scanned: StoredPass = {
+      passId,
+      owner: ownerAddress,
+      domain,
+      resource: normalizedResource,
+      remaining: 0,
+      expiry: 0,
+      purchasedAt: Date.now(),
+      syncedAt: 0,
+    };
+    try {
+      const synced = await this.syncPass(scanned);
+      return synced && this.isPassAvailable(synced) ? synced : null;
+    } catch (error) {
+      this.logger.error('Could not store AccessPass', { passId, error });
+      // Uses unknown: let one request at a time try it (the server has the final say)
+      return this.heldUses.has(passId) ? null : { ...scanned, remaining: 1 };
+    }
+  }
+
+  /**
+   * Whether a pass has a use left that no request in flight holds
+   */
+  private isPassAvailable(pass: StoredPass): boolean {
+    return isStoredPassUsable(pass) && pass.remaining - (this.heldUses.get(pass.passId) || 0) > 0;
+  }
+
+  /**
+   * Hold one use of a pass for a request; returns the function that gives it back
+   */
+  private holdPassUse(passId: string): () => void {
+    this.heldUses.set(passId, (this.heldUses.get(passId) || 0) + 1);
+    let held = true;
+    return () => {
+      if (!held) {
+        return;
+      }
+      held = false;
+      const count = (this.heldUses.get(passId) || 1) - 1;
+      if (count > 0) {
+        this.heldUses.set(passId, count);
       } else {
-        // Try base64
-        try {
-          const privateKeyBytes = fromB64(options.privateKey);
-          this.keypair = Ed25519Keypair.fromSecretKey(privateKeyBytes);
-        } catch {
-          // Try hex string
-          const privateKeyBytes = Uint8Array.from(Buffer.from(options.privateKey.replace('0x', ''), 'hex'));
-          this.keypair = Ed25519Keypair.fromSecretKey(privateKeyBytes);
-        }
+        this.heldUses.delete(passId);
+      }
+    };
+  }
+
+  /**
+   * Hold one use of a usable pass for this domain/resource (null if none is left)
+   */
+  private async reservePass(
+    domain: string,
+    resource: string
+  ): Promise<{ passId: string; release: () => void } | null> {
+    for (;;) {
+      const pass = await this.findUsablePass(domain, resource);
+      if (!pass) {
+        return null;
+      }
+      // Checked again without awaiting: a concurrent request may have taken the last use
+      if (this.isPassAvailable(pass)) {
+        return { passId: pass.passId, release: this.holdPassUse(pass.passId) };
       }
+    }
+  }
+
+  /**
+   * Re-read every stored pass of this wallet from the chain
+   * Passes that no longer exist, are used up or have expired are removed from the store
+   */
+  async syncPasses(): Promise<void> {
+    const passes = await this.passStore.list(this.signer.address);
+    for (const pass of passes) {
+      await this.syncPass(pass);
+    }
+  }
+
+  /**
+   * Refresh one stored pass from the chain
+   * Returns the updated pass, or null if it was removed
+   */
+  private async syncPass(pass: StoredPass): Promise<StoredPass | null> {
+    const accessPass = await fetchAccessPass(pass.passId, this.network.packageId, this.client, this.logger);
+    if (!accessPass || accessPass.owner !== pass.owner) {
+      await this.passStore.remove(pass.passId);
+      return null;
+    }
+
+    const synced: StoredPass = {
+      ...pass,
+      remaining: accessPass.remaining,
+      expiry: accessPass.expiry,
+      syncedAt: Date.now(),
+    };
+    if (!isStoredPassUsable(synced)) {
+      await this.passStore.remove(pass.passId);
+      return null;
+    }
+    await this.passStore.save(synced);
+    return synced;
+  }
+
+  /**
+   * Record a pass bought by this wallet in the pass store
+   */
+  private async storePurchasedPass(
+    passId: string,
+    terms: { domain: string; resource: string; remaining: number; expiry: number }
+  ): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.passStore.save({
+        passId,
+        owner: this.signer.address,
+        domain: terms.domain,
+        resource: normalizePassResource(terms.resource),
+        remaining: terms.remaining,
+        expiry: terms.expiry,
+        purchasedAt: now,
+        syncedAt: now,
+      });
     } catch (error) {
-      throw new Error(`Failed to initialize keypair from private key: ${error instanceof Error ? error.message : 'Unknown error'}. Supported formats: suiprivkey1..., base64, or hex.`);
+      // The pass is still on-chain; it can be found again by the event scan
+      this.logger.error('Could not store AccessPass', { passId, error });
     }
   }
 
   /**
-   * Find existing AccessPass for a domain/resource owned by this wallet
-   * Returns the AccessPass object ID if found, null otherwise
+   * Count one consumed use of a stored pass
    */
-  async findExistingAccessPass(domain: string, resource: string): Promise<string | null> {
-    const ownerAddress = this.keypair.toSuiAddress();
-    console.log(`[PaywallClient] Searching for existing AccessPass for ${domain}${resource}...`);
+  private async recordPassUse(passId: string): Promise<void> {
+    try {
+      const pass = await this.passStore.get(passId);
+      if (!pass) {
+        return;
+      }
+      const used = { ...pass, remaining: pass.remaining - 1 };
+      if (isStoredPassUsable(used)) {
+        await this.passStore.save(used);
+      } else {
+        await this.passStore.remove(passId);
+      }
+    } catch (error) {
+      this.logger.error('Could not update stored AccessPass', { passId, error });
+    }
+  }
+
+  /**
+   * Find a pass in the latest 100 PassPurchased events of the package
+   * Fallback for passes that are not in the pass store
+   */
+  private async scanPurchaseEvents(domain: string, resource: string): Promise<string | null> {
+    const ownerAddress = this.signer.address;
+    this.logger.debug('Searching PassPurchased events for an AccessPass', { domain, resource });
     
     try {
       // Query PassPurchased events to find passes owned by this address
@@ -93,7 +405,7 @@ export class PaywallClient {
       const events = await this.client.queryEvents({
         query: {
           MoveModule: {
-            package: contractConfig.packageId,
+            package: this.network.packageId,
             module: 'paywall',
           },
         },
@@ -119,13 +431,13 @@ export class PaywallClient {
       });
 
       if (matchingEvents.length === 0) {
-        console.log(`[PaywallClient] No existing AccessPass found`);
+        this.logger.debug('No existing AccessPass found', { domain, resource });
         return null;
       }
 
       // Get the most recent matching event
       const mostRecentEvent = matchingEvents[0];
-      console.log(`[PaywallClient] Found ${matchingEvents.length} matching event(s), checking most recent...`);
+      this.logger.debug('Checking the most recent matching PassPurchased event', { events: matchingEvents.length });
 
       // Find the AccessPass object ID from transaction
       // The AccessPass object ID should be in the transaction's created objects
@@ -187,12 +499,12 @@ export class PaywallClient {
                       normalizedPassResource === normalizedTargetResource &&
                       remaining > 0 &&
                       (expiry === 0 || Date.now() < expiry)) {
-                    console.log(`[PaywallClient] ✅ Found valid existing AccessPass: ${passId} (remaining: ${remaining})`);
+                    this.logger.info('Found existing AccessPass', { passId, remaining });
                     return passId;
                   }
                 }
               } catch (error) {
-                console.log(`[PaywallClient] Could not verify pass ${passId}:`, error);
+                this.logger.debug('Could not verify AccessPass', { passId, error });
                 continue;
               }
             }
@@ -200,10 +512,10 @@ export class PaywallClient {
         }
       }
 
-      console.log(`[PaywallClient] No valid existing AccessPass found`);
+      this.logger.debug('No valid existing AccessPass found', { domain, resource });
       return null;
     } catch (error: any) {
-      console.error(`[PaywallClient] Error searching for existing AccessPass:`, error);
+      this.logger.error('Could not search for an existing AccessPass', { error });
       // Don't throw - just return null and purchase a new pass
       return null;
     }
@@ -213,16 +525,16 @@ export class PaywallClient {
    * Consume one use from an AccessPass (decrement remaining)
    */
   async consumeAccessPass(passId: string): Promise<void> {
-    console.log(`[PaywallClient] Consuming AccessPass: ${passId}`);
+    this.logger.info('Consuming AccessPass', { passId });
     
     try {
-      const sender = this.keypair.toSuiAddress();
+      const sender = this.signer.address;
       const tx = new TransactionBlock();
       tx.setSender(sender);
 
       // Call consume_pass function
       tx.moveCall({
-        target: `${contractConfig.packageId}::paywall::consume_pass`,
+        target: `${this.network.packageId}::paywall::consume_pass`,
         arguments: [
           tx.object(passId),
         ],
@@ -231,8 +543,7 @@ export class PaywallClient {
       tx.setGasBudget(10000000);
 
       // Sign and execute
-      const result = await this.client.signAndExecuteTransactionBlock({
-        signer: this.keypair,
+      const result = await this.executeTransaction({
         transactionBlock: tx,
         options: {
           showEffects: true,
@@ -240,18 +551,87 @@ export class PaywallClient {
         },
       });
 
-      console.log(`[PaywallClient] ✅ AccessPass consumed (remaining uses decremented)`);
+      this.logger.info('AccessPass consumed', { passId });
+      await this.recordPassUse(passId);
     } catch (error: any) {
-      console.error(`[PaywallClient] Error consuming AccessPass:`, error);
+      this.logger.error('Could not consume AccessPass', { passId, error });
       throw new Error(`Failed to consume AccessPass: ${error.message || 'Unknown error'}`);
     }
   }
 
+  /**
+   * Build and sign (but do not execute) a consume_pass transaction
+   * Used when the server runs in relay consumption mode: the server submits it
+   * and only serves the response once the use is consumed on-chain
+   */
+  async buildConsumeTransaction(passId: string): Promise<{ bytes: string; signature: string }> {
+    const sender = this.signer.address;
+    const tx = new TransactionBlock();
+    tx.setSender(sender);
+
+    tx.moveCall({
+      target: `${this.network.packageId}::paywall::consume_pass`,
+      arguments: [
+        tx.object(passId),
+      ],
+    });
+
+    tx.setGasBudget(10000000);
+
+    const txBytes = await tx.build({ client: this.client });
+    const { bytes, signature } = await this.signer.signTransaction(txBytes);
+    return { bytes, signature };
+  }
+
+  /**
+   * Build and sign (but do not execute) a purchase_pass transaction
+   * Sent with the content request (X-PAYMENT): the server submits it and serves
+   * the content in the same response, so there is no purchase/index wait
+   */
+  async buildPurchaseTransaction(options: {
+    price: string; // Price in SUI (e.g., "0.01")
+    domain: string;
+    resource: string;
+    remaining: number;
+    expiry: number; // 0 for no expiry, or timestamp in ms
+    nonce: string;
+    receiver: string; // Receiver wallet address
+  }): Promise<{ bytes: string; signature: string }> {
+    const sender = this.signer.address;
+    const priceMist = BigInt(Math.round(parseFloat(options.price) * 1_000_000_000)); // Round: float math can land just below the exact MIST value
+
+    const tx = new TransactionBlock();
+    tx.setSender(sender);
+
+    // Split the payment from the gas coin (the SDK merges coins for gas when needed)
+    const [paymentCoin] = tx.splitCoins(tx.gas, [priceMist]);
+
+    tx.moveCall({
+      target: `${this.network.packageId}::paywall::purchase_pass`,
+      arguments: [
+        paymentCoin,
+        tx.pure(Array.from(new TextEncoder().encode(options.domain)), 'vector<u8>'),
+        tx.pure(Array.from(new TextEncoder().encode(options.resource)), 'vector<u8>'),
+        tx.pure(options.remaining, 'u64'),
+        tx.pure(options.expiry, 'u64'),
+        tx.pure(Array.from(new TextEncoder().encode(options.nonce)), 'vector<u8>'),
+        tx.pure.address(options.receiver),
+        tx.object(this.network.passCounterId),
+      ],
+    });
+
+    tx.setGasBudget(10000000);
+
+    const txBytes = await tx.build({ client: this.client });
+    const { bytes, signature } = await this.signer.signTransaction(txBytes);
+    return { bytes, signature };
+  }
+
   /**
    * Get all coins owned by the wallet (paginated to get all coins)
    */
   async getCoins(): Promise<Array<{ coinId: string; balance: bigint }>> {
-    const address = this.keypair.toSuiAddress();
+    const address = this.signer.address;
     const allCoins: Array<{ coinId: string; balance: bigint }> = [];
     let cursor: string | null = null;
     
@@ -308,7 +688,7 @@ export class PaywallClient {
    * Note: The split coin is already owned by the sender, no transfer needed
    */
   async splitCoin(coinId: string, amount: bigint): Promise<string> {
-    const sender = this.keypair.toSuiAddress();
+    const sender = this.signer.address;
     
     // Verify the coin has enough balance for both split amount and gas
     const coin = await this.client.getObject({
@@ -345,8 +725,7 @@ export class PaywallClient {
     tx.setGasBudget(10000000);
 
     // Sign and execute
-    const result = await this.client.signAndExecuteTransactionBlock({
-      signer: this.keypair,
+    const result = await this.executeTransaction({
       transactionBlock: tx,
       options: {
         showEffects: true,
@@ -364,7 +743,7 @@ export class PaywallClient {
         if (change.type === 'created') {
           const objectType = change.objectType || '';
           if (objectType.includes('Coin') || objectType.includes('coin')) {
-            console.log(`[PaywallClient] Found created coin: ${change.objectId} (type: ${objectType})`);
+            this.logger.debug('Found created coin', { coinId: change.objectId, type: objectType });
             return change.objectId;
           }
         }
@@ -383,7 +762,7 @@ export class PaywallClient {
               options: { showType: true },
             });
             if (obj.data && obj.data.type && (obj.data.type.includes('Coin') || obj.data.type.includes('coin'))) {
-              console.log(`[PaywallClient] Found created coin from effects: ${coinId}`);
+              this.logger.debug('Found created coin in effects', { coinId });
               return coinId;
             }
           } catch (e) {
@@ -396,23 +775,13 @@ export class PaywallClient {
     // When splitting from tx.gas, the split coin might not appear in objectChanges
     // The split coin is returned as a transaction result, but we need to get its object ID
     // Let's check transaction events and also query coins after a delay
-    console.log('[PaywallClient] Split coin not found in objectChanges, checking events and querying coins...');
-    
-    // Check events for coin creation
-    if (result.events && result.events.length > 0) {
-      console.log(`[PaywallClient] Found ${result.events.length} event(s), checking for coin creation...`);
-      for (const event of result.events) {
-        console.log(`[PaywallClient] Event type: ${event.type}`);
-        if (event.parsedJson) {
-          console.log(`[PaywallClient] Event data:`, JSON.stringify(event.parsedJson, null, 2));
-        }
-      }
-    }
+    this.logger.debug('Split coin not found in objectChanges, querying coins', {
+      events: result.events?.map((event) => ({ type: event.type, data: event.parsedJson })),
+    });
     
-    const address = this.keypair.toSuiAddress();
+    const address = this.signer.address;
     
     // Wait longer for the transaction to be fully indexed and the split coin to appear
-    console.log('[PaywallClient] Waiting for transaction to be indexed...');
     await new Promise(resolve => setTimeout(resolve, 2000));
     
     // Query coins multiple times with increasing delays if needed
@@ -423,7 +792,7 @@ export class PaywallClient {
         coinType: '0x2::sui::SUI',
       });
       
-      console.log(`[PaywallClient] Attempt ${attempt + 1}: Found ${coinsAfter.data.length} coin(s)`);
+      this.logger.debug('Queried coins', { attempt: attempt + 1, coins: coinsAfter.data.length });
       
       // Find the coin with the exact amount we split (the new payment coin)
       const targetAmount = amount.toString();
@@ -431,11 +800,9 @@ export class PaywallClient {
       
       for (const coin of coinsAfter.data) {
         const coinBalance = BigInt(coin.balance);
-        console.log(`[PaywallClient] Coin ${coin.coinObjectId}: ${coin.balance} MIST (${Number(coin.balance) / 1_000_000_000} SUI)`);
-        
         // Exact match
         if (coin.balance === targetAmount) {
-          console.log(`[PaywallClient] ✅ Found split coin by exact balance: ${coin.coinObjectId}`);
+          this.logger.debug('Found split coin by exact balance', { coinId: coin.coinObjectId });
           return coin.coinObjectId;
         }
         
@@ -443,7 +810,11 @@ export class PaywallClient {
         const diff = coinBalance > targetBigInt ? coinBalance - targetBigInt : targetBigInt - coinBalance;
         const tolerance = targetBigInt / BigInt(100); // 1% tolerance
         if (diff <= tolerance && coinBalance <= targetBigInt + tolerance) {
-          console.log(`[PaywallClient] ✅ Found split coin by approximate balance: ${coin.coinObjectId} (balance: ${coin.balance}, target: ${targetAmount})`);
+          this.logger.debug('Found split coin by approximate balance', {
+            coinId: coin.coinObjectId,
+            balance: coin.balance,
+            target: targetAmount,
+          });
           return coin.coinObjectId;
         }
       }
@@ -461,7 +832,10 @@ export class PaywallClient {
           });
         
         if (candidates.length > 0) {
-          console.log(`[PaywallClient] ✅ Using closest coin to target: ${candidates[0].id} (balance: ${candidates[0].balance})`);
+          this.logger.debug('Using the coin closest to the target', {
+            coinId: candidates[0].id,
+            balance: candidates[0].balance.toString(),
+          });
           return candidates[0].id;
         }
       }
@@ -472,15 +846,12 @@ export class PaywallClient {
       }
     }
 
-    // Debug: log the full result to see what we got
-    console.error('[PaywallClient] Failed to extract split coin ID. Transaction result:');
-    console.error(JSON.stringify({
+    this.logger.error('Could not find the split coin in the transaction result', {
+      digest: result.digest,
       objectChanges: result.objectChanges,
-      effects: result.effects ? {
-        created: result.effects.created,
-        mutated: result.effects.mutated,
-      } : null,
-    }, null, 2));
+      created: result.effects?.created,
+      mutated: result.effects?.mutated,
+    });
     throw new Error('Failed to get split coin ID from transaction. Check logs for transaction details.');
   }
 
@@ -497,8 +868,8 @@ export class PaywallClient {
     nonce: string;
     receiver: string;
   }): Promise<string> {
-    const sender = this.keypair.toSuiAddress();
-    const priceMist = BigInt(Math.floor(parseFloat(options.price) * 1_000_000_000));
+    const sender = this.signer.address;
+    const priceMist = BigInt(Math.round(parseFloat(options.price) * 1_000_000_000)); // Round: float math can land just below the exact MIST value
     
     const tx = new TransactionBlock();
     tx.setSender(sender);
@@ -513,7 +884,7 @@ export class PaywallClient {
 
     // Call purchase_pass with the split coin
     tx.moveCall({
-      target: `${contractConfig.packageId}::paywall::purchase_pass`,
+      target: `${this.network.packageId}::paywall::purchase_pass`,
       arguments: [
         paymentCoin, // Use the split coin reference directly
         tx.pure(domainBytes, 'vector<u8>'),
@@ -522,7 +893,7 @@ export class PaywallClient {
         tx.pure(options.expiry, 'u64'),
         tx.pure(nonceBytes, 'vector<u8>'),
         tx.pure.address(options.receiver), // Receiver address - use .address() helper
-        tx.object(contractConfig.passCounterId),
+        tx.object(this.network.passCounterId),
       ],
     });
 
@@ -530,9 +901,8 @@ export class PaywallClient {
     tx.setGasBudget(10000000);
 
     // Sign and execute
-    console.log(`[PaywallClient] Splitting and purchasing in single transaction...`);
-    const result = await this.client.signAndExecuteTransactionBlock({
-      signer: this.keypair,
+    this.logger.debug('Splitting and purchasing in a single transaction');
+    const result = await this.executeTransaction({
       transactionBlock: tx,
       options: {
         showEffects: true,
@@ -544,7 +914,7 @@ export class PaywallClient {
     if (result.objectChanges) {
       for (const change of result.objectChanges) {
         if (change.type === 'created' && change.objectType && change.objectType.includes('AccessPass')) {
-          console.log(`✅ AccessPass purchased: ${change.objectId}`);
+          this.logger.info('AccessPass purchased', { passId: change.objectId });
           return change.objectId;
         }
       }
@@ -556,6 +926,7 @@ export class PaywallClient {
   /**
    * Purchase AccessPass - automatically handles coin selection and splitting
    * Combines split and purchase in a single transaction for better gas handling
+   * The new pass is recorded in the pass store
    */
   async purchaseAccessPass(options: {
     price: string; // Price in SUI (e.g., "0.01")
@@ -565,9 +936,23 @@ export class PaywallClient {
     expiry: number; // 0 for no expiry, or timestamp in ms
     nonce: string;
     receiver: string; // Receiver wallet address
+  }): Promise<string> {
+    const passId = await this.executePurchase(options);
+    await this.storePurchasedPass(passId, options);
+    return passId;
+  }
+
+  private async executePurchase(options: {
+    price: string;
+    domain: string;
+    resource: string;
+    remaining: number;
+    expiry: number;
+    nonce: string;
+    receiver: string;
   }): Promise<string> {
     // Convert price to MIST (bigint)
-    const priceMist = BigInt(Math.floor(parseFloat(options.price) * 1_000_000_000));
+    const priceMist = BigInt(Math.round(parseFloat(options.price) * 1_000_000_000)); // Round: float math can land just below the exact MIST value
 
     // Step 1: Get coins
     const coins = await this.getCoins();
@@ -618,16 +1003,16 @@ export class PaywallClient {
     }
 
     // Step 3: Log coin information for debugging
-    console.log(`[PaywallClient] Found ${coins.length} coin(s)`);
-    const totalBalance = coins.reduce((sum, c) => sum + c.balance, BigInt(0));
-    console.log(`[PaywallClient] Total balance: ${Number(totalBalance) / 1_000_000_000} SUI`);
+    this.logger.debug('Wallet coins', {
+      coins: coins.length,
+      totalMist: coins.reduce((sum, c) => sum + c.balance, BigInt(0)).toString(),
+    });
 
     // Step 4: Handle coin splitting and purchase
     // If we only have 1 coin and need to split, combine split and purchase in one transaction
     // because we can't extract the split coin ID when splitting from tx.gas
     if (needsSplit && coins.length === 1) {
       // Single coin case: combine split and purchase in one transaction
-      console.log(`[PaywallClient] Single coin detected - combining split and purchase in one transaction...`);
       return await this.splitAndPurchase(options);
     }
     
@@ -636,17 +1021,16 @@ export class PaywallClient {
     
     if (needsSplit) {
       // Multiple coins: split in separate transaction
-      console.log(`[PaywallClient] Splitting ${options.price} SUI from coin ${sourceCoinId}...`);
+      this.logger.debug('Splitting the payment coin', { price: options.price, coinId: sourceCoinId });
       // For multiple coins, we can split from a specific coin (not tx.gas)
-      const sender = this.keypair.toSuiAddress();
+      const sender = this.signer.address;
       const tx = new TransactionBlock();
       tx.setSender(sender);
       
       const [splitCoin] = tx.splitCoins(tx.object(sourceCoinId!), [priceMist]);
       tx.setGasBudget(10000000);
       
-      const result = await this.client.signAndExecuteTransactionBlock({
-        signer: this.keypair,
+      const result = await this.executeTransaction({
         transactionBlock: tx,
         options: {
           showEffects: true,
@@ -668,7 +1052,7 @@ export class PaywallClient {
         throw new Error('Failed to get split coin ID from transaction');
       }
       
-      console.log(`[PaywallClient] Created payment coin: ${paymentCoinId}`);
+      this.logger.debug('Created payment coin', { coinId: paymentCoinId });
       await new Promise(resolve => setTimeout(resolve, 500)); // Small delay for indexing
     } else {
       // Use the coin directly
@@ -676,7 +1060,7 @@ export class PaywallClient {
     }
 
     // Step 5: Purchase AccessPass using the payment coin
-    const sender = this.keypair.toSuiAddress();
+    const sender = this.signer.address;
     const tx = new TransactionBlock();
     tx.setSender(sender);
 
@@ -687,7 +1071,7 @@ export class PaywallClient {
 
     // Call purchase_pass with the payment coin
     tx.moveCall({
-      target: `${contractConfig.packageId}::paywall::purchase_pass`,
+      target: `${this.network.packageId}::paywall::purchase_pass`,
       arguments: [
         tx.object(paymentCoinId!), // Payment coin (either split or direct)
         tx.pure(domainBytes, 'vector<u8>'),
@@ -696,7 +1080,7 @@ export class PaywallClient {
         tx.pure(options.expiry, 'u64'),
         tx.pure(nonceBytes, 'vector<u8>'),
         tx.pure.address(options.receiver), // Receiver address - use .address() helper
-        tx.object(contractConfig.passCounterId), // PassCounter
+        tx.object(this.network.passCounterId), // PassCounter
       ],
     });
 
@@ -704,9 +1088,7 @@ export class PaywallClient {
     tx.setGasBudget(10000000);
 
     // Sign and execute
-    console.log(`[PaywallClient] Purchasing AccessPass...`);
-    const result = await this.client.signAndExecuteTransactionBlock({
-      signer: this.keypair,
+    const result = await this.executeTransaction({
       transactionBlock: tx,
       options: {
         showEffects: true,
@@ -718,7 +1100,7 @@ export class PaywallClient {
     if (result.objectChanges) {
       for (const change of result.objectChanges) {
         if (change.type === 'created' && change.objectType && change.objectType.includes('AccessPass')) {
-          console.log(`✅ AccessPass purchased: ${change.objectId}`);
+          this.logger.info('AccessPass purchased', { passId: change.objectId });
           return change.objectId;
         }
       }
@@ -729,19 +1111,20 @@ export class PaywallClient {
 
   /**
    * Sign message for headers
+   * @param request - Method, query and body the signature is bound to (default: plain GET)
    */
-  async signMessage(passId: string, domain: string, resource: string, timestamp: string): Promise<string> {
+  async signMessage(
+    passId: string,
+    domain: string,
+    resource: string,
+    timestamp: string,
+    request?: SignedRequest
+  ): Promise<string> {
     try {
-      const message = JSON.stringify({ passId, domain, resource, ts: timestamp });
+      const message = createSignMessage(passId, domain, resource, timestamp, request);
       const messageBytes = new TextEncoder().encode(message);
-      
-      console.log(`[PaywallClient] Signing message: ${message.substring(0, 100)}...`);
-      
-      const signatureResult = await this.keypair.signPersonalMessage(messageBytes);
-      
-      console.log(`[PaywallClient] Signature result type:`, typeof signatureResult);
-      console.log(`[PaywallClient] Signature result keys:`, signatureResult ? Object.keys(signatureResult) : 'null/undefined');
-      
+      const signatureResult = await this.signer.signPersonalMessage(messageBytes);
+
       // signatureResult might be an object with signature property, or directly a Uint8Array
       let sig: Uint8Array | undefined;
       
@@ -756,7 +1139,6 @@ export class PaywallClient {
       }
       
       if (!sig) {
-        console.error(`[PaywallClient] Could not extract signature from result:`, signatureResult);
         throw new Error('Failed to extract signature from signPersonalMessage result');
       }
       
@@ -773,7 +1155,6 @@ export class PaywallClient {
       }
       
       const base64Signature = toB64(sig);
-      console.log(`[PaywallClient] Signature generated, length: ${base64Signature.length}`);
       
       if (!base64Signature || base64Signature.length === 0) {
         throw new Error('Generated signature is empty');
@@ -781,11 +1162,101 @@ export class PaywallClient {
       
       return base64Signature;
     } catch (error: any) {
-      console.error(`[PaywallClient] Error signing message:`, error);
       throw new Error(`Failed to sign message: ${error.message || 'Unknown error'}`);
     }
   }
 
+  /**
+   * Check a 402 challenge before paying for it
+   *
+   * When the resource is registered on-chain, the challenge receiver and price
+   * must match its ResourceEntry, signed or not. A signed challenge must also be
+   * unexpired, validly signed, and signed either by a trusted key or by the
+   * registry receiver. Unsigned challenges and unregistered resources are only
+   * accepted with `requireSignedChallenges: false`.
+   * @throws ChallengeVerificationError
+   */
+  async verifyChallenge(challenge: PaymentChallenge): Promise<void> {
+    const signer =
+      challenge.signature || this.requireSignedChallenges
+        ? await verifyChallengeSignature(challenge)
+        : null;
+    const entry = await fetchResourceEntry(
+      this.network.registryId,
+      this.network.packageId,
+      challenge.domain,
+      challenge.resource,
+      this.client,
+      undefined,
+      this.logger
+    );
+
+    if (entry && normalizeSuiAddress(entry.receiver) !== normalizeSuiAddress(challenge.receiver)) {
+      throw new ChallengeVerificationError(
+        `Challenge receiver ${challenge.receiver} differs from registry receiver ${entry.receiver}`,
+        'RECEIVER_MISMATCH'
+      );
+    }
+    if (entry && challenge.priceInMist !== entry.price) {
+      throw new ChallengeVerificationError(
+        `Challenge price ${challenge.priceInMist} MIST differs from registry price ${entry.price} MIST`,
+        'PRICE_MISMATCH'
+      );
+    }
+
+    if (!signer) {
+      this.logger.warn('Payment challenge is not signed', {
+        domain: challenge.domain,
+        resource: challenge.resource,
+        registered: !!entry,
+      });
+      return;
+    }
+    if (this.trustedChallengeSigners.includes(signer)) {
+      return;
+    }
+    if (entry) {
+      if (signer !== normalizeSuiAddress(entry.receiver)) {
+        throw new ChallengeVerificationError(
+          `Challenge was signed by ${signer}, not the registry receiver ${entry.receiver}`,
+          'UNTRUSTED_SIGNER'
+        );
+      }
+      return;
+    }
+
+    // Unregistered resource: nothing on-chain vouches for the signer
+    if (this.requireSignedChallenges) {
+      throw new ChallengeVerificationError(
+        `No ResourceEntry for ${challenge.domain}${challenge.resource} and ${signer} is not a trusted challenge signer`,
+        'UNTRUSTED_SIGNER'
+      );
+    }
+    this.logger.warn('Challenge signer could not be checked against the registry', { signer });
+  }
+
+  /**
+   * Pay for a challenge within the spending policy
+   * The payment is recorded in the ledger once `pay` resolves and released if it throws
+   * @throws SpendLimitExceededError if the policy refuses the payment
+   */
+  private async spend<T>(challenge: PaymentChallenge, pay: () => Promise<T>): Promise<T> {
+    if (!this.spendingPolicy) {
+      return pay();
+    }
+
+    const reservation = await this.spendingPolicy.authorize(challenge);
+    let result: T;
+    try {
+      result = await pay();
+    } catch (error) {
+      reservation.release();
+      throw error;
+    }
+    await reservation.commit(typeof result === 'string' ? result : undefined);
+    return result;
+  }
+
   /**
    * Complete flow: Get 402 challenge, purchase pass, return headers
    */
@@ -805,26 +1276,34 @@ export class PaywallClient {
     }
 
     const challenge = await response.json() as PaymentChallenge;
+    await this.verifyChallenge(challenge);
     
     // Step 2: Purchase AccessPass
-    const accessPassId = await this.purchaseAccessPass({
-      price: challenge.price,
-      domain: challenge.domain,
-      resource: challenge.resource,
-      remaining: 10, // Default
-      expiry: 0, // No expiry
-      nonce: challenge.nonce,
-      receiver: challenge.receiver, // Pass receiver from challenge
-    });
+    const accessPassId = await this.spend(challenge, () =>
+      this.purchaseAccessPass({
+        price: challenge.price,
+        domain: challenge.domain,
+        resource: challenge.resource,
+        ...passTerms(challenge), // Route terms, or 10 uses with no expiry
+        nonce: challenge.nonce,
+        receiver: challenge.receiver, // Pass receiver from challenge
+      })
+    );
 
     // Step 3: Sign headers
     const timestamp = Date.now().toString();
-    const signature = await this.signMessage(accessPassId, challenge.domain, challenge.resource, timestamp);
+    const signature = await this.signMessage(
+      accessPassId,
+      challenge.domain,
+      challenge.resource,
+      timestamp,
+      createSignedRequest('GET', url)
+    );
 
     return {
       headers: {
         'x-pass-id': accessPassId,
-        'x-signer': this.keypair.toSuiAddress(),
+        'x-signer': this.signer.address,
         'x-sig': signature,
         'x-ts': timestamp,
       },
@@ -832,6 +1311,323 @@ export class PaywallClient {
     };
   }
 
+  /**
+   * Headers that answer a 402 challenge: proof of an existing pass, a pass bought
+   * on-chain, or (x402 servers) a signed purchase sent with the request
+   * Used by fetch(), access() and the axios / undici integrations
+   *
+   * Concurrent calls for one domain/resource share passes: each holds one of the
+   * pass's remaining uses until its payment completes or is released, and only one
+   * buys a new pass at a time while the others wait to use it.
+   *
+   * @param request - The request the headers will be sent with (x-sig is bound to it)
+   * @throws ChallengeVerificationError, SpendLimitExceededError before anything is paid
+   */
+  async preparePayment(
+    challenge: PaymentChallenge,
+    request: SignedRequest,
+    payInRequestOption?: boolean
+  ): Promise<PaymentAttempt> {
+    const resource = normalizePassResource(challenge.resource);
+    const purchaseTerms = passTerms(challenge); // Route terms, or 10 uses with no expiry
+    const purchaseKey = `${challenge.domain} ${resource}`;
+
+    // Hold a use of a valid AccessPass for this domain/resource. While another request
+    // is buying one, wait for it and use its pass instead of buying a second
+    let reserved = await this.reservePass(challenge.domain, resource);
+    while (!reserved && this.pendingPurchases.has(purchaseKey)) {
+      await this.pendingPurchases.get(purchaseKey);
+      reserved = await this.reservePass(challenge.domain, resource);
+    }
+
+    // No pass left: this request buys one (registered before any await)
+    let finishPurchase = () => {};
+    if (!reserved) {
+      const purchase: Promise<void> = new Promise((resolve) => {
+        finishPurchase = () => {
+          if (this.pendingPurchases.get(purchaseKey) === purchase) {
+            this.pendingPurchases.delete(purchaseKey);
+          }
+          resolve();
+        };
+      });
+      this.pendingPurchases.set(purchaseKey, purchase);
+    }
+
+    let releaseUse = reserved?.release;
+    const release = () => {
+      releaseUse?.();
+      finishPurchase();
+    };
+
+    try {
+      return await this.buildPayment(challenge, request, payInRequestOption, {
+        resource,
+        purchaseTerms,
+        accessPassId: reserved?.passId ?? null,
+        release,
+        // A pass bought on-chain: hold its first use, let waiting requests in once stored
+        onPurchased: (passId) => {
+          releaseUse = this.holdPassUse(passId);
+        },
+        onStored: () => finishPurchase(),
+      });
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * Payment headers once a pass use is held (or this request is the buyer)
+   */
+  private async buildPayment(
+    challenge: PaymentChallenge,
+    request: SignedRequest,
+    payInRequestOption: boolean | undefined,
+    context: {
+      resource: string;
+      purchaseTerms: { remaining: number; expiry: number };
+      accessPassId: string | null;
+      release: () => void;
+      onPurchased: (passId: string) => void;
+      onStored: () => void;
+    }
+  ): Promise<PaymentAttempt> {
+    const { resource, release } = context;
+    let { accessPassId, purchaseTerms } = context;
+
+    // Pay in the content request: the server submits our signed purchase_pass
+    // transaction and serves the content in the same response. In relay mode that
+    // response is the pass's first use, so the pass is bought with one use fewer
+    const relay = challenge.consumptionMode === 'relay';
+    const payInRequest =
+      !accessPassId &&
+      payInRequestOption !== false &&
+      !!challenge.accepts?.length &&
+      !(relay && purchaseTerms.remaining <= 1);
+    if (payInRequest && relay) {
+      purchaseTerms = { ...purchaseTerms, remaining: purchaseTerms.remaining - 1 };
+    }
+
+    // Never pay a receiver the challenge signature does not vouch for
+    if (!accessPassId) {
+      await this.verifyChallenge(challenge);
+    }
+
+    if (payInRequest) {
+      this.logger.info('Paying with the request', { domain: challenge.domain, resource, price: challenge.price });
+      // Counted as spent once signed: the server may submit it whatever we do next
+      const purchase = await this.spend(challenge, () =>
+        this.buildPurchaseTransaction({
+          price: challenge.price,
+          domain: challenge.domain,
+          resource,
+          ...purchaseTerms,
+          nonce: challenge.nonce,
+          receiver: challenge.receiver,
+        })
+      );
+      return {
+        challenge,
+        resource,
+        accessPassId: null,
+        payInRequest,
+        purchaseTerms,
+        release,
+        headers: {
+          'X-PAYMENT': encodePaymentHeader({
+            x402Version: X402_VERSION,
+            scheme: SUI_EXACT_SCHEME,
+            network: challenge.accepts![0].network,
+            payload: { transaction: purchase.bytes, signature: purchase.signature },
+          }),
+        },
+      };
+    }
+
+    if (!accessPassId) {
+      this.logger.info('Purchasing AccessPass', { domain: challenge.domain, resource, price: challenge.price });
+
+      // Purchase AccessPass (automatically handles coin splitting)
+      accessPassId = await this.spend(challenge, () =>
+        this.executePurchase({
+          price: challenge.price,
+          domain: challenge.domain,
+          resource,
+          ...purchaseTerms,
+          nonce: challenge.nonce,
+          receiver: challenge.receiver,
+        })
+      );
+      context.onPurchased(accessPassId);
+
+      this.logger.info('AccessPass purchased', { passId: accessPassId });
+
+      // Wait a moment for the AccessPass to be indexed on-chain
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      // Other requests only see the pass once it is indexed and our use is held
+      await this.storePurchasedPass(accessPassId, { domain: challenge.domain, resource, ...purchaseTerms });
+      context.onStored();
+    } else {
+      this.logger.info('Using existing AccessPass', { passId: accessPassId });
+    }
+
+    // Sign headers
+    const timestamp = Date.now().toString();
+    const signature = await this.signMessage(accessPassId, challenge.domain, resource, timestamp, request);
+
+    // Validate signature is a non-empty string
+    if (!signature || typeof signature !== 'string' || signature.length === 0) {
+      throw new Error('Invalid signature generated');
+    }
+
+    const headers: Record<string, string> = {
+      'x-pass-id': accessPassId,
+      'x-signer': this.signer.address,
+      'x-sig': signature,
+      'x-ts': timestamp,
+      // Lets servers that cannot see the raw body check what was signed
+      'x-content-sha256': request.bodySha256,
+    };
+
+    // Relay mode: the server submits our pre-signed consume_pass transaction
+    if (challenge.consumptionMode === 'relay') {
+      const consumeTx = await this.buildConsumeTransaction(accessPassId);
+      headers['x-consume-tx'] = consumeTx.bytes;
+      headers['x-consume-sig'] = consumeTx.signature;
+    }
+
+    return { challenge, resource, accessPassId, payInRequest, purchaseTerms, headers, release };
+  }
+
+  /**
+   * After a successful paid response: record the pass and consume one use
+   * @param response - The paid response (only its headers are read)
+   */
+  async completePayment(
+    payment: PaymentAttempt,
+    response: { headers: { get(name: string): string | null } }
+  ): Promise<void> {
+    let releaseNewPass: (() => void) | undefined;
+    try {
+      const { challenge, payInRequest } = payment;
+
+      // The server reports the pass it created from our purchase
+      if (payInRequest) {
+        payment.accessPassId = response.headers.get('X-Access-Pass-ID');
+        this.logger.info('AccessPass purchased with the request', { passId: payment.accessPassId });
+        if (payment.accessPassId) {
+          // Held until this use is counted, so concurrent requests cannot take it
+          releaseNewPass = this.holdPassUse(payment.accessPassId);
+          await this.storePurchasedPass(payment.accessPassId, {
+            domain: challenge.domain,
+            resource: payment.resource,
+            ...payment.purchaseTerms,
+          });
+        }
+      }
+
+      const accessPassId = payment.accessPassId;
+      if (!accessPassId) {
+        return;
+      }
+      if (response.headers.get('X-Pass-Consumed')) {
+        await this.recordPassUse(accessPassId);
+        return;
+      }
+
+      // Consume one use ourselves (unless this relay-mode response was paid for by the purchase itself)
+      if (!(payInRequest && challenge.consumptionMode === 'relay')) {
+        try {
+          await this.consumeAccessPass(accessPassId);
+        } catch (consumeError) {
+          // Log error but don't fail the request - consumption is best-effort
+          this.logger.warn('Could not consume AccessPass', { error: consumeError });
+        }
+      }
+    } finally {
+      // Uses are counted (or the purchase is stored) by now: let waiting requests in
+      releaseNewPass?.();
+      payment.release();
+    }
+  }
+
+  /**
+   * Drop-in `fetch` that pays for 402 Payment Required responses
+   *
+   * Sends the request as given; on a paywall 402 it reuses or buys a pass (or pays
+   * in the request on x402 servers) and retries once with the payment headers.
+   * Method, body, caller headers and signal are kept. Any other response, including
+   * a failed retry, is returned as-is; only refused payments and network errors reject.
+   *
+   * @example
+   * ```javascript
+   * const response = await client.fetch('https://example.com/api/report', {
+   *   method: 'POST',
+   *   headers: { 'content-type': 'application/json' },
+   *   body: JSON.stringify({ query: 'sui' }),
+   * });
+   * const report = await response.json();
+   * ```
+   */
+  async fetch(input: string | URL | Request, init?: PaywallFetchInit): Promise<Response> {
+    const request = new Request(input, init);
+    // Buffered so the body can be sent again with the payment headers
+    const body = request.body ? await request.arrayBuffer() : undefined;
+
+    const send = (payment: Record<string, string> = {}) => {
+      const headers = new Headers(request.headers);
+      for (const [name, value] of Object.entries(payment)) {
+        headers.set(name, value);
+      }
+      return fetch(request.url, {
+        method: request.method,
+        headers,
+        body,
+        signal: request.signal,
+        redirect: request.redirect,
+      });
+    };
+
+    const response = await send();
+    if (response.status !== 402) {
+      return response;
+    }
+
+    // Only paywall challenges are paid; other 402s go back to the caller
+    let challenge: unknown;
+    try {
+      challenge = await response.clone().json();
+    } catch {
+      return response;
+    }
+    if (!isPaymentChallenge(challenge)) {
+      return response;
+    }
+
+    const signedRequest = createSignedRequest(
+      request.method,
+      request.url,
+      body ? new Uint8Array(body) : undefined
+    );
+    const payment = await this.preparePayment(challenge, signedRequest, init?.payInRequest);
+    let paid: Response;
+    try {
+      paid = await send(payment.headers);
+    } catch (error) {
+      payment.release();
+      throw error;
+    }
+    if (paid.ok) {
+      await this.completePayment(payment, paid);
+    } else {
+      payment.release();
+    }
+    return paid;
+  }
+
   /**
    * ONE-LINE ACCESS: Automatically handles payment and returns content
    * This is the main method clients should use - everything is abstracted!
@@ -845,6 +1641,16 @@ export class PaywallClient {
    * // Basic usage - returns encrypted blob
    * const encrypted = await client.access('http://example.com/premium');
    * 
+   * // Servers advertising x402 get the signed purchase with the content request
+   * // (one round-trip, no indexing wait). Opt out with { payInRequest: false }
+   *
+   * // Paywalled APIs take any method; the signature covers method, query and body
+   * const result = await client.access('http://example.com/api/jobs', {
+   *   method: 'POST',
+   *   body: JSON.stringify({ prompt: 'hello' }),
+   *   headers: { 'content-type': 'application/json' },
+   * });
+   *
    * // With automatic decryption
    * const decrypted = await client.access('http://example.com/premium', {
    *   autoDecrypt: {
@@ -860,6 +1666,14 @@ export class PaywallClient {
     options?: {
       retries?: number;
       timeout?: number;
+      /** HTTP method (default: GET) */
+      method?: string;
+      /** Request body (sent with both the first and the paid request) */
+      body?: string | Uint8Array;
+      /** Extra request headers */
+      headers?: Record<string, string>;
+      /** Send a new purchase with the content request when the server supports x402 (default: true) */
+      payInRequest?: boolean;
       autoDecrypt?: {
         domain: string;
         resource: string;
@@ -869,15 +1683,19 @@ export class PaywallClient {
   ): Promise<any> {
     const maxRetries = options?.retries || 1;
     const timeout = options?.timeout || 30000;
+    const method = (options?.method || 'GET').toUpperCase();
+    const body = options?.body;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
         // Step 1: Try to access the route
         const response = await fetch(url, {
-          method: 'GET',
+          method,
           headers: {
+            ...options?.headers,
             'Connection': 'close',
           },
+          body,
           signal: AbortSignal.timeout(timeout),
         });
 
@@ -907,83 +1725,33 @@ export class PaywallClient {
         if (response.status === 402) {
           const challenge = await response.json() as PaymentChallenge;
           
-          // Normalize resource path (remove trailing slash except for root)
-          const normalizedResource = challenge.resource === '/' ? '/' : challenge.resource.replace(/\/$/, '');
-          
-          // Check if we already have a valid AccessPass for this domain/resource
-          let accessPassId = await this.findExistingAccessPass(challenge.domain, normalizedResource);
-          
-          if (!accessPassId) {
-            console.log(`[PaywallClient] No existing AccessPass found, purchasing new one...`);
-            console.log(`[PaywallClient] Payment required: ${challenge.price} SUI`);
-            
-            // Purchase AccessPass (automatically handles coin splitting)
-            accessPassId = await this.purchaseAccessPass({
-              price: challenge.price,
-              domain: challenge.domain,
-              resource: normalizedResource,
-              remaining: 10, // Default remaining uses
-              expiry: 0, // No expiry
-              nonce: challenge.nonce,
-              receiver: challenge.receiver,
-            });
-
-            console.log(`[PaywallClient] AccessPass purchased: ${accessPassId}`);
-            
-            // Wait a moment for the AccessPass to be indexed on-chain
-            console.log(`[PaywallClient] Waiting for AccessPass to be indexed...`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
-          } else {
-            console.log(`[PaywallClient] Using existing AccessPass: ${accessPassId}`);
-          }
-
-          // Sign headers
-          const timestamp = Date.now().toString();
-          const signature = await this.signMessage(
-            accessPassId!,
-            challenge.domain,
-            normalizedResource,
-            timestamp
+          const payment = await this.preparePayment(
+            challenge,
+            createSignedRequest(method, url, body),
+            options?.payInRequest
           );
+          const headers = { ...options?.headers, ...payment.headers, 'Connection': 'close' };
 
-          // Validate signature is a non-empty string
-          if (!signature || typeof signature !== 'string' || signature.length === 0) {
-            throw new Error('Invalid signature generated');
+          let contentResponse: Response;
+          try {
+            contentResponse = await fetch(url, {
+              method,
+              headers,
+              body,
+              signal: AbortSignal.timeout(timeout),
+            });
+          } catch (error) {
+            payment.release();
+            throw error;
+          }
+          if (contentResponse.status !== 200) {
+            payment.release();
           }
-
-          const headers = {
-            'x-pass-id': accessPassId,
-            'x-signer': this.keypair.toSuiAddress(),
-            'x-sig': signature,
-            'x-ts': timestamp,
-            'Connection': 'close',
-          };
-          
-          console.log(`[PaywallClient] Signature length: ${signature.length}, first 20 chars: ${signature.substring(0, 20)}`);
-
-          // Retry request with signed headers
-          console.log(`[PaywallClient] Requesting content with AccessPass...`);
-          console.log(`[PaywallClient] Headers:`, {
-            'x-pass-id': accessPassId,
-            'x-signer': this.keypair.toSuiAddress(),
-            'x-ts': timestamp,
-            'x-sig': signature.substring(0, 20) + '...',
-          });
-          
-          const contentResponse = await fetch(url, {
-            method: 'GET',
-            headers,
-            signal: AbortSignal.timeout(timeout),
-          });
 
           if (contentResponse.status === 200) {
-            // Success! Now consume one use from the AccessPass
-            try {
-              await this.consumeAccessPass(accessPassId!);
-            } catch (consumeError) {
-              // Log error but don't fail the request - consumption is best-effort
-              console.error(`[PaywallClient] Warning: Failed to consume AccessPass:`, consumeError);
-            }
+            // Record the pass and consume one use
+            await this.completePayment(payment, contentResponse);
+            const accessPassId = payment.accessPassId;
             
             // Check content type to determine if it's JSON or binary
             const contentType = contentResponse.headers.get('content-type');
@@ -1013,7 +1781,6 @@ export class PaywallClient {
 
             // Auto-decrypt if requested and content is an encrypted blob
             if (options?.autoDecrypt && (content instanceof ArrayBuffer || Buffer.isBuffer(content) || content instanceof Uint8Array)) {
-              console.log(`[PaywallClient] Auto-decrypting content...`);
               try {
                 // Get resourceEntryId from headers if not provided in options
                 let resourceEntryId = options.autoDecrypt.resourceEntryId;
@@ -1023,7 +1790,7 @@ export class PaywallClient {
                   if (!resourceEntryId) {
                     throw new Error('ResourceEntry ID not found in response headers. Server must provide X-Resource-Entry-ID header.');
                   }
-                  console.log(`[PaywallClient] Using ResourceEntry ID from server headers: ${resourceEntryId}`);
+                  this.logger.debug('Using ResourceEntry ID from the response', { resourceEntryId });
                 }
                 
                 const decrypted = await this.decrypt(
@@ -1033,7 +1800,7 @@ export class PaywallClient {
                 );
                 return decrypted;
               } catch (decryptError: any) {
-                console.error(`[PaywallClient] Auto-decryption failed:`, decryptError.message);
+                this.logger.error('Auto-decryption failed', { error: decryptError });
                 // Return encrypted blob if decryption fails (allow manual decryption)
                 return content;
               }
@@ -1059,7 +1826,7 @@ export class PaywallClient {
         if (attempt === maxRetries - 1) {
           throw error;
         }
-        console.log(`[PaywallClient] Attempt ${attempt + 1} failed, retrying...`);
+        this.logger.warn('Attempt failed, retrying', { attempt: attempt + 1, error });
         await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1s before retry
       }
     }
@@ -1097,8 +1864,8 @@ export class PaywallClient {
     resourceEntryId: string,
     accessPassId: string
   ): Promise<Uint8Array> {
-    const packageId = contractConfig.packageId;
-    const userAddress = this.keypair.toSuiAddress();
+    const packageId = this.network.packageId;
+    const userAddress = this.signer.address;
 
     // Normalize hex string helper (same as test-registered-content.js)
     const normalizeHexString = (hex: string): string => {
@@ -1144,11 +1911,11 @@ export class PaywallClient {
           ? normalizeHexString(policyId)
           : toHex(policyIdBytes);
 
-      // Create Sui and Seal clients (using @mysten/sui for Seal compatibility)
-      const suiClient = new SealSuiClient({ url: getSealFullnodeUrl("testnet") });
+      // Create Seal client (using @mysten/sui for Seal compatibility)
+      const suiClient = this.sealSuiClient;
       const sealClient = new SealClient({
         suiClient: suiClient as any, // Type assertion to handle version compatibility
-        serverConfigs: SEAL_SERVER_OBJECT_IDS.map((id) => ({
+        serverConfigs: this.network.sealKeyServers.map((id) => ({
           objectId: id,
           weight: 1,
         })),
@@ -1165,7 +1932,7 @@ export class PaywallClient {
 
       // Sign SessionKey
       const personalMessage = sessionKey.getPersonalMessage();
-      const signatureResult = await this.keypair.signPersonalMessage(personalMessage);
+      const signatureResult = await this.signer.signPersonalMessage(personalMessage);
 
       // Extract signature as base64 string (following test-registered-content.js pattern)
       let signatureString: string;
@@ -1320,6 +2087,7 @@ export class PaywallClient {
     let resourceEntryId: string | undefined = options?.resourceEntryId;
     let accessPassId: string | undefined;
     let encryptedBlob: ArrayBuffer | Uint8Array | undefined;
+    let relayConsumption = false;
 
     // Use access() with autoDecrypt disabled initially so we can capture headers
     // We'll make our own request to get headers
@@ -1341,17 +2109,20 @@ export class PaywallClient {
           if (initialResponse.status === 402) {
             const challenge = await initialResponse.json() as PaymentChallenge;
             const normalizedResource = challenge.resource === '/' ? '/' : challenge.resource.replace(/\/$/, '');
+            relayConsumption = challenge.consumptionMode === 'relay';
+            await this.verifyChallenge(challenge);
             
-            console.log(`[PaywallClient] Purchasing AccessPass...`);
-            accessPassId = await this.purchaseAccessPass({
-              price: challenge.price,
-              domain: challenge.domain,
-              resource: normalizedResource,
-              remaining: 10,
-              expiry: 0,
-              nonce: challenge.nonce,
-              receiver: challenge.receiver,
-            });
+            this.logger.info('Purchasing AccessPass', { domain: challenge.domain, resource: normalizedResource, price: challenge.price });
+            accessPassId = await this.spend(challenge, () =>
+              this.purchaseAccessPass({
+                price: challenge.price,
+                domain: challenge.domain,
+                resource: normalizedResource,
+                ...passTerms(challenge),
+                nonce: challenge.nonce,
+                receiver: challenge.receiver,
+              })
+            );
             
             await new Promise(resolve => setTimeout(resolve, 2000));
           }
@@ -1367,23 +2138,48 @@ export class PaywallClient {
           accessPassId,
           domain,
           resource.replace(/\/$/, '') || resource,
-          timestamp
+          timestamp,
+          createSignedRequest('GET', url)
         );
 
-        const headers = {
+        const headers: Record<string, string> = {
           'x-pass-id': accessPassId,
-          'x-signer': this.keypair.toSuiAddress(),
+          'x-signer': this.signer.address,
           'x-sig': signature,
           'x-ts': timestamp,
           'Connection': 'close',
         };
 
-        const contentResponse = await fetch(url, {
+        // Relay mode: the server submits our pre-signed consume_pass transaction
+        const addConsumeHeaders = async () => {
+          const consumeTx = await this.buildConsumeTransaction(accessPassId!);
+          headers['x-consume-tx'] = consumeTx.bytes;
+          headers['x-consume-sig'] = consumeTx.signature;
+        };
+        if (relayConsumption) {
+          await addConsumeHeaders();
+        }
+
+        let contentResponse = await fetch(url, {
           method: 'GET',
           headers,
           signal: AbortSignal.timeout(timeout),
         });
 
+        // Server wants a pre-signed consume_pass transaction - retry once with it
+        if (contentResponse.status === 402 && !relayConsumption) {
+          const challenge = await contentResponse.json() as PaymentChallenge;
+          if (challenge.consumptionMode === 'relay') {
+            relayConsumption = true;
+            await addConsumeHeaders();
+            contentResponse = await fetch(url, {
+              method: 'GET',
+              headers,
+              signal: AbortSignal.timeout(timeout),
+            });
+          }
+        }
+
         if (contentResponse.status !== 200) {
           throw new Error(`Unexpected status: ${contentResponse.status}`);
         }
@@ -1398,7 +2194,7 @@ export class PaywallClient {
             );
           }
           resourceEntryId = headerValue;
-          console.log(`[PaywallClient] Using ResourceEntry ID from server: ${resourceEntryId}`);
+          this.logger.debug('Using ResourceEntry ID from the response', { resourceEntryId });
         }
 
         // Get encrypted blob
@@ -1410,11 +2206,15 @@ export class PaywallClient {
           encryptedBlob = await contentResponse.arrayBuffer();
         }
 
-        // Consume AccessPass
-        try {
-          await this.consumeAccessPass(accessPassId);
-        } catch (consumeError) {
-          console.error(`[PaywallClient] Warning: Failed to consume AccessPass:`, consumeError);
+        // Consume AccessPass (unless the server already did)
+        if (!contentResponse.headers.get('X-Pass-Consumed')) {
+          try {
+            await this.consumeAccessPass(accessPassId);
+          } catch (consumeError) {
+            this.logger.warn('Could not consume AccessPass', { error: consumeError });
+          }
+        } else {
+          await this.recordPassUse(accessPassId);
         }
 
         break; // Success
@@ -1422,7 +2222,7 @@ export class PaywallClient {
         if (attempt === maxRetries - 1) {
           throw error;
         }
-        console.log(`[PaywallClient] Attempt ${attempt + 1} failed, retrying...`);
+        this.logger.warn('Attempt failed, retrying', { attempt: attempt + 1, error });
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
     }
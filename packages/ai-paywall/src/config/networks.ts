@@ -0,0 +1,129 @@
+// Network profiles
+// Contract deployment and infrastructure endpoints for each Sui network
+
+import { isValidSuiAddress } from '@mysten/sui.js/utils';
+import contractConfig from './contract.json';
+
+/**
+ * Built-in network names
+ */
+export type NetworkName = 'testnet' | 'mainnet' | 'devnet';
+
+/**
+ * Contract deployment and endpoints used by the middleware and PaywallClient
+ */
+export interface NetworkConfig {
+  /** Published ai-paywall package ID */
+  packageId: string;
+  /** Shared Registry object ID */
+  registryId: string;
+  /** Shared PassCounter object ID */
+  passCounterId: string;
+  /** Treasury object ID */
+  treasuryId: string;
+  /** Sui fullnode RPC URL */
+  rpcUrl: string;
+  /** Seal key server object IDs */
+  sealKeyServers: string[];
+  /** Walrus aggregator URLs, tried in order */
+  walrusAggregators: string[];
+}
+
+/**
+ * Network selection: a built-in profile name, or your own deployment
+ *
+ * Custom profiles can extend a built-in one with `extends` and only override
+ * the fields that differ (e.g. your own package on mainnet).
+ */
+export type NetworkOption = NetworkName | (Partial<NetworkConfig> & { extends?: NetworkName });
+
+/**
+ * Built-in profiles
+ *
+ * Only testnet ships with a deployed package. Mainnet and devnet provide
+ * endpoints only - supply the IDs of your own deployment.
+ */
+export const NETWORK_PROFILES: Record<NetworkName, Partial<NetworkConfig>> = {
+  testnet: {
+    packageId: contractConfig.packageId,
+    registryId: contractConfig.registryId,
+    passCounterId: contractConfig.passCounterId,
+    treasuryId: contractConfig.treasuryId,
+    rpcUrl: contractConfig.rpcUrl,
+    sealKeyServers: [
+      '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75',
+      '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8',
+    ],
+    walrusAggregators: [
+      'https://aggregator.walrus-testnet.walrus.space',
+      'https://wal-aggregator-testnet.staketab.org',
+      'https://walrus-testnet-aggregator.redundex.com',
+      'https://walrus-testnet-aggregator.nodes.guru',
+      'https://aggregator.walrus.banansen.dev',
+      'https://walrus-testnet-aggregator.everstake.one',
+    ],
+  },
+  mainnet: {
+    rpcUrl: 'https://fullnode.mainnet.sui.io:443',
+    sealKeyServers: [],
+    walrusAggregators: ['https://aggregator.walrus-mainnet.walrus.space'],
+  },
+  devnet: {
+    rpcUrl: 'https://fullnode.devnet.sui.io:443',
+    sealKeyServers: [],
+    walrusAggregators: [],
+  },
+};
+
+/**
+ * Resolve a network option to a full, validated config (default: testnet)
+ * @throws Error if a required ID is missing or not a valid Sui address
+ */
+export function resolveNetworkConfig(network: NetworkOption = 'testnet'): NetworkConfig {
+  const { extends: base, ...overrides } =
+    typeof network === 'string' ? { extends: network } : network;
+
+  const profile = base ? NETWORK_PROFILES[base] : {};
+  if (!profile) {
+    throw new Error(`Unknown network: ${base}`);
+  }
+
+  const config: NetworkConfig = {
+    packageId: '',
+    registryId: '',
+    passCounterId: '',
+    treasuryId: '',
+    rpcUrl: '',
+    sealKeyServers: [],
+    walrusAggregators: [],
+    ...profile,
+    ...overrides,
+  };
+
+  validateNetworkConfig(config, base || 'custom');
+  return config;
+}
+
+/**
+ * Validate object IDs and endpoints of a network config
+ */
+export function validateNetworkConfig(config: NetworkConfig, name: string = 'custom'): void {
+  for (const field of ['packageId', 'registryId', 'passCounterId', 'treasuryId'] as const) {
+    if (!config[field]) {
+      throw new Error(`Network config (${name}): ${field} is required`);
+    }
+    if (!isValidSuiAddress(config[field])) {
+      throw new Error(`Network config (${name}): ${field} is not a valid Sui address`);
+    }
+  }
+
+  if (!config.rpcUrl) {
+    throw new Error(`Network config (${name}): rpcUrl is required`);
+  }
+
+  for (const keyServer of config.sealKeyServers) {
+    if (!isValidSuiAddress(keyServer)) {
+      throw new Error(`Network config (${name}): Seal key server ${keyServer} is not a valid Sui address`);
+    }
+  }
+}
@@ -0,0 +1,1024 @@
+// Framework-agnostic paywall core
+// Turns (method, path, headers) into a challenge / deny / allow decision.
+// Framework adapters (Express, Fastify, Koa, Hono) only translate requests and decisions.
+
+import {
+  PaywallOptions,
+  PaymentChallenge,
+  AccessPass,
+  PaywallContext,
+  PaywallCoreRequest,
+  PaywallDecision,
+  PaywallHeaders,
+} from "./types";
+import {
+  PaymentRequiredError,
+  SignatureVerificationError,
+  InvalidPaymentPayloadError,
+  PaymentRejectedError,
+} from "./errors";
+import { generateNonce } from "./utils/validation";
+import type { SuiClient, SuiTransport } from "@mysten/sui.js/client";
+import type { SuiClient as SealSuiClient } from "@mysten/sui/client";
+import type { ResourceEntry } from "./utils/sui";
+import { fetchEncryptedBlob } from "./utils/walrus";
+import { ReplayGuard } from "./utils/replay";
+import { ConsumptionResult } from "./utils/consumption";
+import { PaywallCache } from "./utils/cache";
+import { resolveNetworkConfig } from "./config/networks";
+import { PaywallLogger } from "./utils/logger";
+import { RouteTable } from "./utils/routes";
+import { getHeader } from "./utils/headers";
+import { PurchaseSettlement } from "./utils/settlement";
+import {
+  X402_VERSION,
+  SUI_EXACT_SCHEME,
+  SUI_COIN_TYPE,
+  X402PaymentPayload,
+  X402PaymentRequirements,
+  SuiPassProofPayload,
+  x402NetworkName,
+  decodePaymentHeader,
+  isSignedTransactionPayload,
+  encodePaymentResponse,
+} from "./utils/x402";
+import type { PassVerifier, PaymentProof, PaymentTerms } from "./verifier";
+import {
+  SignedRequest,
+  canonicalizeQuery,
+  hashRequestBody,
+} from "./utils/signature";
+import {
+  DEFAULT_CHALLENGE_TTL_MS,
+  loadChallengeKeypair,
+  signChallenge,
+} from "./utils/challenge";
+import { Keypair } from "@mysten/sui.js/cryptography";
+import type { FacilitatorSettleResponse } from "./facilitator";
+import { callFacilitator } from "./utils/x402";
+
+/**
+ * Options after defaults and baked-in contract details are applied
+ */
+interface NormalizedPaywallOptions {
+  price?: string;
+  receiver?: string;
+  priceSource: "options" | "registry";
+  packageId: string;
+  treasuryId: string;
+  passCounterId: string;
+  registryId: string;
+  domain: string;
+  resourceEntryId?: string;
+  rpcUrl: string;
+  sealKeyServers: string[];
+  walrusAggregators: string[];
+  /** Injected clients and transport (clients are otherwise created on first use) */
+  suiClient?: SuiClient;
+  sealSuiClient?: SealSuiClient;
+  transport?: SuiTransport;
+  mockContent: string;
+  routes: RouteTable | null;
+  replayGuard: ReplayGuard | null;
+  consumption: "client" | "relay";
+  cache: PaywallCache | null;
+  logger: PaywallLogger;
+  /** Accept X-PAYMENT and emit `accepts` */
+  x402: boolean;
+  /** x402 network name, e.g. sui-testnet */
+  x402Network: string;
+  /** Delegate verification and settlement to this facilitator */
+  facilitatorUrl: string | null;
+  /** Sent with every facilitator call */
+  facilitatorHeaders: Record<string, string>;
+  /** Signs 402 challenges (unsigned when null) */
+  challengeSigner: Keypair | null;
+  challengeTtlMs: number;
+}
+
+/**
+ * Price and pass terms that apply to one request
+ */
+interface RoutePolicy {
+  /** Price in SUI (unset in registry mode until the entry is looked up) */
+  price?: string;
+  /** Exact price in MIST when taken from the registry */
+  priceInMist?: string;
+  receiver?: string;
+  maxUses?: number;
+  validityMs?: number;
+  mockContent: string;
+  route?: { pattern: string; params: Record<string, string> };
+}
+
+/**
+ * Pass checked locally or by the facilitator, ready to be served
+ */
+interface VerifiedAccess {
+  accessPass: AccessPass;
+  /** AccessPass object ID */
+  passId: string;
+  payer: string;
+  /** Answer with X-PAYMENT-RESPONSE */
+  x402: boolean;
+  settlement?: PurchaseSettlement;
+  /** Relay mode: consume one use, called right before every allow decision */
+  consume?: () => Promise<ConsumptionResult>;
+  /** Registry lookup for the resource being served */
+  fetchEntry: () => Promise<ResourceEntry | null>;
+}
+
+/**
+ * Sui SDK helpers, clients and pass verifier, loaded on first use
+ */
+interface ChainAccess {
+  sui: typeof import("./utils/sui");
+  suiClient: SuiClient;
+  verifier: PassVerifier;
+}
+
+/**
+ * Paywall decision engine shared by all framework adapters
+ * Contract details come from the network profile (default: baked-in testnet)
+ */
+export class PaywallCore {
+  private readonly options: NormalizedPaywallOptions;
+  private chainAccess: Promise<ChainAccess> | null = null;
+  private sealClient: Promise<SealSuiClient> | null = null;
+
+  constructor(options: PaywallOptions) {
+    // Validate user options (with a route table, price only covers unmatched paths;
+    // in registry mode, price and receiver come from the ResourceEntry)
+    const priceSource = options.priceSource || "options";
+    if (
+      ((priceSource === "options" && !options.routes) ||
+        options.price !== undefined) &&
+      (!options.price || parseFloat(options.price) <= 0)
+    ) {
+      throw new Error("Price must be greater than 0");
+    }
+
+    if (
+      (priceSource === "options" || options.receiver !== undefined) &&
+      (!options.receiver || typeof options.receiver !== "string")
+    ) {
+      throw new Error("Receiver wallet address is required");
+    }
+
+    if (!options.domain || typeof options.domain !== "string") {
+      throw new Error("Domain is required");
+    }
+
+    // Registry pricing reads the chain, which facilitator mode leaves to the facilitator
+    if (options.facilitatorUrl && priceSource === "registry") {
+      throw new Error("priceSource 'registry' cannot be combined with facilitatorUrl");
+    }
+
+    // Contract details come from the selected network profile (default: testnet)
+    const network = resolveNetworkConfig(options.network);
+
+    this.options = {
+      price: options.price,
+      receiver: options.receiver, // User's wallet address
+      priceSource,
+      domain: options.domain,
+      resourceEntryId: options.resourceEntryId, // Optional: ResourceEntry ID for optimization (fetches from registry if not provided)
+      packageId: network.packageId,
+      treasuryId: network.treasuryId,
+      passCounterId: network.passCounterId,
+      registryId: network.registryId,
+      rpcUrl: network.rpcUrl,
+      sealKeyServers: network.sealKeyServers,
+      walrusAggregators: network.walrusAggregators,
+      // Injected clients/transport take precedence over rpcUrl
+      suiClient: options.suiClient,
+      sealSuiClient: options.sealSuiClient,
+      transport: options.transport,
+      mockContent:
+        options.mockContent ||
+        '{"message": "Access granted - Mock content for testing"}',
+      routes: options.routes ? new RouteTable(options.routes) : null,
+      // Replay protection is on by default (in-memory store)
+      replayGuard:
+        options.replayProtection === false
+          ? null
+          : new ReplayGuard(options.replayProtection || {}),
+      consumption: options.consumption || "client",
+      // Pass and resource lookups are cached by default (in-memory LRU)
+      cache:
+        options.cache === false
+          ? null
+          : options.cache instanceof PaywallCache
+          ? options.cache
+          : new PaywallCache(options.cache || {}),
+      // Console at "info" by default, silent when NODE_ENV=production
+      logger:
+        options.logger instanceof PaywallLogger
+          ? options.logger
+          : new PaywallLogger(options.logger, {
+              redact: options.redactLogFields,
+            }),
+      x402: options.x402 !== false,
+      x402Network: x402NetworkName(options.network),
+      facilitatorUrl: options.facilitatorUrl || null,
+      facilitatorHeaders: options.facilitatorHeaders || {},
+      challengeSigner: options.challengeSigningKey
+        ? loadChallengeKeypair(options.challengeSigningKey)
+        : null,
+      challengeTtlMs: options.challengeTtlMs || DEFAULT_CHALLENGE_TTL_MS,
+    };
+
+    // Compare local prices with the chain in the background
+    // (skipped in facilitator mode, where the server makes no RPC calls)
+    if (!this.options.facilitatorUrl) {
+      void this.checkRegistry().catch((error) =>
+        this.options.logger.warn("Registry check failed", { error })
+      );
+    }
+  }
+
+  /**
+   * Compare configured prices and receivers with the on-chain ResourceEntry
+   *
+   * Checks `resourceEntryId` and every route pattern without wildcards or params.
+   * Runs at startup; each disagreement is logged as a warning and returned.
+   */
+  async checkRegistry(): Promise<string[]> {
+    const options = this.options;
+    const checks: Array<{
+      label: string;
+      price?: string;
+      load: () => Promise<ResourceEntry | null>;
+    }> = [];
+
+    if (options.resourceEntryId && options.price) {
+      const entryId = options.resourceEntryId;
+      checks.push({
+        label: entryId,
+        price: options.price,
+        load: async () => {
+          const { sui, suiClient } = await this.chain();
+          return sui.fetchResourceEntryById(suiClient, entryId, options.logger);
+        },
+      });
+    }
+    for (const { pattern, config } of options.routes?.literalRoutes() || []) {
+      checks.push({
+        label: pattern,
+        price: config.price,
+        load: () => this.fetchEntry(normalizeResourcePath(pattern)),
+      });
+    }
+
+    const mismatches: string[] = [];
+    for (const check of checks) {
+      const entry = await check.load();
+      if (!entry) {
+        continue;
+      }
+      if (check.price && convertSuiToMist(check.price) !== entry.price) {
+        mismatches.push(
+          `${check.label}: price ${convertSuiToMist(check.price)} MIST differs from registry price ${entry.price} MIST`
+        );
+      }
+      if (
+        options.receiver &&
+        options.receiver.toLowerCase() !== entry.receiver.toLowerCase()
+      ) {
+        mismatches.push(
+          `${check.label}: receiver ${options.receiver} differs from registry receiver ${entry.receiver}`
+        );
+      }
+    }
+
+    for (const mismatch of mismatches) {
+      options.logger.warn(`Options disagree with the registry - ${mismatch}`, {
+        priceSource: options.priceSource,
+      });
+    }
+    return mismatches;
+  }
+
+  /**
+   * Evaluate a request
+   * Never throws: unexpected failures become a 500 deny decision
+   */
+  async evaluate(request: PaywallCoreRequest): Promise<PaywallDecision> {
+    const options = this.options;
+    const requestId = `${Date.now()}-${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+    const resource = normalizeResourcePath(request.path);
+    let log = options.logger.child({
+      requestId,
+      domain: options.domain,
+      resource,
+    });
+    log.debug("Request received", { method: request.method });
+
+    let policy = this.resolvePolicy(resource);
+    if (!policy) {
+      // Route table without a default price: unmatched paths are not protected
+      log.debug("No route matched - not protected", { decision: "allow" });
+      return { type: "allow", headers: {}, paywall: {} };
+    }
+
+    try {
+      // Registry mode: the ResourceEntry sets price, receiver and pass terms
+      if (options.priceSource === "registry") {
+        const entry = await this.fetchEntry(resource, log);
+        if (entry && !entry.active) {
+          log.warn("Resource is inactive", { decision: "deny" });
+          return deny(403, "ResourceInactive", "This resource is currently inactive");
+        }
+        if (entry) {
+          policy = {
+            ...policy,
+            price: formatMist(entry.price),
+            priceInMist: entry.price,
+            receiver: entry.receiver,
+            maxUses: entry.max_uses || undefined,
+            validityMs: entry.validity_duration || undefined,
+          };
+        } else if (!policy.price || !policy.receiver) {
+          log.warn("Resource not registered and no local price", {
+            decision: "deny",
+          });
+          return deny(404, "ResourceNotFound", "Resource is not registered");
+        }
+      }
+
+      const paymentHeader = options.x402
+        ? getHeader(request.headers, "x-payment")
+        : undefined;
+      if (!paymentHeader && !hasSignedHeaders(request.headers)) {
+        // No headers - return 402 Payment Required
+        log.info("No signed headers - sending payment challenge", {
+          decision: "challenge",
+        });
+        return await this.challenge(resource, policy);
+      }
+
+      // X-PAYMENT takes precedence over the legacy x-* headers
+      const payment: X402PaymentPayload = paymentHeader
+        ? decodePaymentHeader(paymentHeader, options.x402Network)
+        : {
+            x402Version: X402_VERSION,
+            scheme: SUI_EXACT_SCHEME,
+            network: options.x402Network,
+            payload: readSignedHeaders(request.headers),
+          };
+
+      if (!isSignedTransactionPayload(payment.payload)) {
+        log = log.child({ passId: payment.payload.passId });
+
+        // Relay mode: the client must send a pre-signed consume_pass transaction
+        // (a purchase settled by this request pays for the response itself)
+        if (
+          options.consumption === "relay" &&
+          (!payment.payload.consumeTx || !payment.payload.consumeSig)
+        ) {
+          throw this.paymentRequired(resource, policy);
+        }
+
+        // x-sig must cover this request as received, whatever the client claims
+        payment.payload = { ...payment.payload, request: receivedRequest(request) };
+      }
+
+      // Has headers - verify pass (here, or at the facilitator)
+      const verified = options.facilitatorUrl
+        ? await this.delegate(payment, !!paymentHeader, resource, policy, log)
+        : await this.verifyLocally(payment, !!paymentHeader, resource, policy, log);
+      return await this.serve(verified, request.headers, resource, policy, log);
+    } catch (error: any) {
+      if (error instanceof PaymentRequiredError) {
+        log.info(error.message, { decision: "challenge" });
+        return await this.challenge(resource, policy!);
+      }
+
+      if (error instanceof InvalidPaymentPayloadError) {
+        log.info(error.message, { decision: "challenge" });
+        return await this.challenge(resource, policy!, error.message);
+      }
+
+      if (error?.statusCode === 403) {
+        log.warn(error.message, {
+          decision: "deny",
+          error: error.name,
+          reason: error.reason,
+        });
+        return {
+          type: "deny",
+          status: error.statusCode,
+          headers: {},
+          body:
+            error instanceof SignatureVerificationError ||
+            (error instanceof PaymentRejectedError && error.reason)
+              ? { error: error.name, message: error.message, reason: error.reason }
+              : { error: error.name, message: error.message },
+        };
+      }
+
+      // Unknown error - make sure we send a response
+      log.error("Middleware error", { decision: "error", error });
+      return deny(
+        500,
+        "InternalServerError",
+        error?.message || "An error occurred while verifying access"
+      );
+    }
+  }
+
+  /**
+   * Find the price and pass terms for a resource path
+   * Returns null if the path is not protected
+   */
+  private resolvePolicy(resource: string): RoutePolicy | null {
+    const options = this.options;
+    const match = options.routes?.match(resource);
+    if (match) {
+      return {
+        price: match.config.price,
+        receiver: options.receiver,
+        maxUses: match.config.maxUses,
+        validityMs: match.config.validityMs,
+        mockContent: match.config.mockContent || options.mockContent,
+        route: { pattern: match.pattern, params: match.params },
+      };
+    }
+
+    return options.price || options.priceSource === "registry"
+      ? {
+          price: options.price,
+          receiver: options.receiver,
+          mockContent: options.mockContent,
+        }
+      : null;
+  }
+
+  /**
+   * Look up the ResourceEntry for a path (cached when the cache is enabled)
+   */
+  private async fetchEntry(
+    resource: string,
+    log: PaywallLogger = this.options.logger
+  ): Promise<ResourceEntry | null> {
+    const options = this.options;
+    const { sui, suiClient } = await this.chain();
+    // ResourceEntry ID can be provided in options as an optimization (optional cache),
+    // but the middleware will always query the registry to find it dynamically
+    const loadResourceEntry = () =>
+      sui.fetchResourceEntry(
+        options.registryId,
+        options.packageId,
+        options.domain,
+        resource,
+        suiClient,
+        options.resourceEntryId, // Optional: if provided, fetch directly (optimization cache)
+        log
+      );
+    return options.cache
+      ? options.cache.getResourceEntry(options.domain, resource, loadResourceEntry)
+      : loadResourceEntry();
+  }
+
+  /**
+   * Build a 402 Payment Required decision
+   */
+  private async challenge(
+    resource: string,
+    policy: RoutePolicy,
+    error?: string
+  ): Promise<PaywallDecision> {
+    const options = this.options;
+    const nonce = generateNonce();
+
+    // Remember the nonce so the pass bought with it can be bound to it
+    if (options.replayGuard) {
+      await options.replayGuard.issueNonce(nonce, options.domain, resource);
+    }
+
+    const challenge: PaymentChallenge = {
+      status: 402,
+      paymentRequired: true,
+      price: policy.price!,
+      priceInMist: policy.priceInMist || convertSuiToMist(policy.price!),
+      receiver: policy.receiver!, // User's wallet address, or the registry receiver
+      packageId: options.packageId,
+      treasuryId: options.treasuryId,
+      passCounterId: options.passCounterId,
+      domain: options.domain,
+      resource: resource,
+      nonce: nonce,
+      consumptionMode: options.consumption,
+      maxUses: policy.maxUses,
+      validityMs: policy.validityMs,
+    };
+
+    // x402: the same terms as payment requirements for generic agents
+    if (options.x402) {
+      challenge.x402Version = X402_VERSION;
+      challenge.accepts = [this.paymentRequirements(resource, policy, nonce)];
+    }
+    if (error) {
+      challenge.error = error;
+    }
+
+    // Sign the whole body so clients can detect an altered receiver or price
+    if (options.challengeSigner) {
+      challenge.expiresAt = Date.now() + options.challengeTtlMs;
+      await signChallenge(challenge, options.challengeSigner);
+    }
+
+    return { type: "challenge", status: 402, headers: {}, body: challenge };
+  }
+
+  /**
+   * x402 payment requirements for a resource
+   */
+  private paymentRequirements(
+    resource: string,
+    policy: RoutePolicy,
+    nonce?: string
+  ): X402PaymentRequirements {
+    const options = this.options;
+    return {
+      scheme: SUI_EXACT_SCHEME,
+      network: options.x402Network,
+      maxAmountRequired: policy.priceInMist || convertSuiToMist(policy.price!),
+      resource: `https://${options.domain}${resource}`,
+      description: `Access pass for ${options.domain}${resource}`,
+      mimeType: "application/octet-stream",
+      payTo: policy.receiver!,
+      maxTimeoutSeconds: 60,
+      asset: SUI_COIN_TYPE,
+      extra: {
+        packageId: options.packageId,
+        passCounterId: options.passCounterId,
+        domain: options.domain,
+        resource,
+        nonce,
+        maxUses: policy.maxUses,
+        validityMs: policy.validityMs,
+        consumptionMode: options.consumption,
+      },
+    };
+  }
+
+  /**
+   * Terms a pass must satisfy for a resource
+   */
+  private terms(resource: string, policy: RoutePolicy): PaymentTerms {
+    return {
+      domain: this.options.domain,
+      resource,
+      priceInMist: policy.priceInMist || convertSuiToMist(policy.price!),
+      receiver: policy.receiver!,
+      maxUses: policy.maxUses,
+      validityMs: policy.validityMs,
+      relay: this.options.consumption === "relay",
+    };
+  }
+
+  /**
+   * Verify a payment against the chain (settling a signed purchase first)
+   */
+  private async verifyLocally(
+    payment: X402PaymentPayload,
+    x402: boolean,
+    resource: string,
+    policy: RoutePolicy,
+    log: PaywallLogger
+  ): Promise<VerifiedAccess> {
+    const options = this.options;
+    const { verifier } = await this.chain();
+    const terms = this.terms(resource, policy);
+
+    const proof: PaymentProof = isSignedTransactionPayload(payment.payload)
+      ? await verifier.settlePurchase(payment.payload, terms, log)
+      : { ...payment.payload, x402 };
+
+    log.debug("Verifying access", {
+      signer: proof.signer,
+      timestamp: proof.timestamp,
+      x402,
+    });
+    const accessPass = await verifier.verify(proof, terms, log);
+
+    return {
+      accessPass,
+      passId: proof.passId,
+      payer: proof.signer,
+      x402,
+      settlement: proof.settlement,
+      consume:
+        options.consumption === "relay" && !proof.settlement
+          ? () => verifier.consume(proof, accessPass, log)
+          : undefined,
+      fetchEntry: () => this.fetchEntry(resource, log),
+    };
+  }
+
+  /**
+   * Have the facilitator verify and settle a payment
+   * The facilitator also consumes the use (relay mode) and returns the ResourceEntry
+   */
+  private async delegate(
+    payment: X402PaymentPayload,
+    x402: boolean,
+    resource: string,
+    policy: RoutePolicy,
+    log: PaywallLogger
+  ): Promise<VerifiedAccess> {
+    const options = this.options;
+
+    log.debug("Settling with facilitator", { facilitatorUrl: options.facilitatorUrl });
+    const result = await callFacilitator<FacilitatorSettleResponse>(
+      options.facilitatorUrl!,
+      "settle",
+      {
+        x402Version: X402_VERSION,
+        paymentPayload: payment,
+        paymentRequirements: this.paymentRequirements(resource, policy),
+      },
+      undefined,
+      options.facilitatorHeaders
+    );
+
+    if (!result.success || !result.accessPass || !result.passId) {
+      if (result.errorReason === "InvalidPaymentPayloadError") {
+        throw new InvalidPaymentPayloadError(result.message);
+      }
+      throw new PaymentRejectedError(result.errorReason, result.message, result.reason);
+    }
+
+    const { accessPass, passId, consumption } = result;
+    return {
+      accessPass,
+      passId,
+      payer: result.payer,
+      x402,
+      settlement: isSignedTransactionPayload(payment.payload)
+        ? {
+            digest: result.transaction,
+            passId,
+            sender: result.payer,
+            pricePaid: String(accessPass.price_paid),
+          }
+        : undefined,
+      consume: consumption ? async () => consumption : undefined,
+      fetchEntry: async () => result.resourceEntry ?? null,
+    };
+  }
+
+  /**
+   * Serve a verified request: attach pass details and content, consume in relay mode
+   */
+  private async serve(
+    verified: VerifiedAccess,
+    headers: PaywallHeaders,
+    resource: string,
+    policy: RoutePolicy,
+    log: PaywallLogger
+  ): Promise<PaywallDecision> {
+    const options = this.options;
+    const { accessPass, passId } = verified;
+
+    // All checks passed! Pass details travel with the allow decision
+    const paywall: PaywallContext = {
+      accessPass,
+      verified: true,
+      route: policy.route,
+      settlement: verified.settlement,
+    };
+    const responseHeaders: Record<string, string> = {};
+
+    // Tell the client which pass its purchase created
+    if (verified.settlement) {
+      responseHeaders["X-Access-Pass-ID"] = passId;
+    }
+
+    // x402: report the transaction that paid for this response
+    const setPaymentResponse = () => {
+      if (verified.x402) {
+        responseHeaders["X-PAYMENT-RESPONSE"] = encodePaymentResponse({
+          success: true,
+          transaction:
+            verified.settlement?.digest || paywall.consumption?.digest || "",
+          network: options.x402Network,
+          payer: verified.payer,
+        });
+      }
+    };
+
+    // Relay mode: consume one use on-chain before anything is served
+    // Called right before every allow decision
+    const allow = async (
+      decryptedData?: Uint8Array
+    ): Promise<PaywallDecision> => {
+      if (verified.consume) {
+        paywall.consumption = await verified.consume();
+        responseHeaders["X-Pass-Consumed"] = paywall.consumption.digest;
+      }
+
+      setPaymentResponse();
+      log.info("Access granted", {
+        decision: "allow",
+        remaining:
+          paywall.consumption?.remainingAfter ?? accessPass.remaining,
+      });
+      return { type: "allow", headers: responseHeaders, paywall, decryptedData };
+    };
+
+    // Fetch and decrypt content from Walrus
+    try {
+      // Query registry on-chain by domain and resource
+      const resourceEntry = await verified.fetchEntry();
+
+      if (!resourceEntry) {
+        log.warn("Resource not found in registry, passing to route handler");
+        // Resource not registered - serve mock content or let route handler deal with it
+        paywall.mockContent = policy.mockContent;
+        return await allow();
+      }
+
+      if (!resourceEntry.active) {
+        log.warn("Resource is inactive", { decision: "deny" });
+        return deny(403, "ResourceInactive", "This resource is currently inactive");
+      }
+
+      log.debug("Resource found", { walrusCid: resourceEntry.walrus_cid });
+
+      // Check if client provided SessionKey for decryption
+      const sessionKeyHeader = getHeader(headers, "x-session-key");
+      const exportedSessionKey = sessionKeyHeader
+        ? JSON.parse(sessionKeyHeader)
+        : undefined;
+
+      // seal_approve takes the ResourceEntry object of the requested domain/resource
+      // (the entry looked up above, locally or by the facilitator)
+      const resourceId = resourceEntry.resource_id;
+
+      if (exportedSessionKey) {
+        // Server-side decryption
+        log.debug("Decrypting content server-side");
+        let decryptionResult;
+        try {
+          const { decryptContent } = await import("./utils/decryption");
+          decryptionResult = await decryptContent({
+            packageId: options.packageId,
+            registryId: options.registryId,
+            resourceId,
+            accessPassId: passId,
+            walrusCid: resourceEntry.walrus_cid,
+            sealPolicyId: resourceEntry.seal_policy,
+            rpcUrl: options.rpcUrl,
+            suiClient: await this.sealSuiClient(),
+            keyServers: options.sealKeyServers,
+            walrusAggregators: options.walrusAggregators,
+            exportedSessionKey,
+            logger: log,
+          });
+        } catch (decryptError: any) {
+          log.error("Decryption failed", { error: decryptError });
+          return deny(
+            500,
+            "DecryptionFailed",
+            decryptError.message || "Failed to decrypt content"
+          );
+        }
+
+        // Serve decrypted content
+        return await allow(decryptionResult.decryptedData);
+      }
+
+      // Return encrypted blob for client-side decryption
+      log.debug("Fetching encrypted blob for client-side decryption");
+      let encryptedBlob: ArrayBuffer;
+      try {
+        encryptedBlob = await fetchEncryptedBlob(
+          resourceEntry.walrus_cid,
+          options.walrusAggregators,
+          log
+        );
+      } catch (fetchError: any) {
+        log.error("Failed to fetch encrypted blob", { error: fetchError });
+        return deny(
+          500,
+          "FetchFailed",
+          fetchError.message || "Failed to fetch encrypted content from Walrus"
+        );
+      }
+
+      // Encrypted blob and metadata for the route handler
+      paywall.encryptedBlob = encryptedBlob;
+      paywall.resourceEntry = {
+        domain: resourceEntry.domain,
+        resource: resourceEntry.resource,
+        walrus_cid: resourceEntry.walrus_cid,
+        seal_policy: resourceEntry.seal_policy,
+        price: resourceEntry.price,
+        receiver: resourceEntry.receiver,
+        max_uses: resourceEntry.max_uses,
+        validity_duration: resourceEntry.validity_duration,
+        owner: resourceEntry.owner,
+        created_at: resourceEntry.created_at,
+        active: resourceEntry.active,
+        resource_id: resourceEntry.resource_id,
+      };
+
+      // These headers allow clients to decrypt without needing to know ResourceEntry ID
+      responseHeaders["X-Resource-Entry-ID"] = resourceEntry.resource_id;
+      responseHeaders["X-Walrus-CID"] = resourceEntry.walrus_cid;
+      responseHeaders["X-Seal-Policy"] = resourceEntry.seal_policy;
+
+      // Let route handler serve the encrypted blob or decrypt it
+      return await allow();
+    } catch (error: any) {
+      // Never fall through to the route handler without a confirmed consumption
+      if (options.consumption === "relay") {
+        throw error;
+      }
+      log.warn("Error fetching/decrypting content, passing to route handler", {
+        decision: "allow",
+        error,
+      });
+      // Don't fail the request - let route handler serve mock content or handle error
+      setPaymentResponse();
+      return { type: "allow", headers: responseHeaders, paywall };
+    }
+  }
+
+  /**
+   * Sui clients and the pass verifier
+   * Created on first use, and the Sui SDK modules loaded with them: in facilitator
+   * mode the server makes no Sui calls and never gets here
+   */
+  private chain(): Promise<ChainAccess> {
+    if (!this.chainAccess) {
+      // Kept as one promise so concurrent first requests share the clients
+      // (dropped on failure so the next request tries again)
+      this.chainAccess = this.loadChain().catch((error) => {
+        this.chainAccess = null;
+        throw error;
+      });
+    }
+    return this.chainAccess;
+  }
+
+  private async loadChain(): Promise<ChainAccess> {
+    const options = this.options;
+    const sui = await import("./utils/sui");
+    const { PassVerifier } = await import("./verifier");
+    const suiClient =
+      options.suiClient || sui.createSuiClient(options.rpcUrl, options.transport);
+    return {
+      sui,
+      suiClient,
+      verifier: new PassVerifier({
+        packageId: options.packageId,
+        suiClient,
+        sealSuiClient: await this.sealSuiClient(),
+        replayGuard: options.replayGuard,
+        cache: options.cache,
+      }),
+    };
+  }
+
+  /**
+   * @mysten/sui client for Seal decryption and zkLogin checks (created on first use)
+   */
+  private sealSuiClient(): Promise<SealSuiClient> {
+    if (!this.sealClient) {
+      const options = this.options;
+      this.sealClient = options.sealSuiClient
+        ? Promise.resolve(options.sealSuiClient)
+        : import("./utils/sui")
+            .then((sui) => sui.createSealSuiClient(options.rpcUrl, options.transport))
+            .catch((error) => {
+              this.sealClient = null;
+              throw error;
+            });
+    }
+    return this.sealClient;
+  }
+
+  private paymentRequired(
+    resource: string,
+    policy: RoutePolicy
+  ): PaymentRequiredError {
+    const options = this.options;
+    return new PaymentRequiredError(
+      policy.price || "",
+      options.packageId,
+      options.treasuryId,
+      options.passCounterId,
+      options.domain,
+      resource,
+      generateNonce(),
+      policy.receiver
+    );
+  }
+}
+
+/**
+ * Strip the query string and trailing slash (except for root) from a request path
+ */
+export function normalizeResourcePath(path: string): string {
+  let resourcePath = (path || "/").split("?")[0] || "/";
+  if (resourcePath !== "/" && resourcePath.endsWith("/")) {
+    resourcePath = resourcePath.slice(0, -1);
+  }
+  return resourcePath;
+}
+
+/**
+ * Check all signed access headers are present
+ */
+function hasSignedHeaders(headers: PaywallHeaders): boolean {
+  return ["x-pass-id", "x-signer", "x-sig", "x-ts"].every(
+    (name) => !!getHeader(headers, name)
+  );
+}
+
+/**
+ * Read the legacy x-pass-id / x-signer / x-sig / x-ts (and relay x-consume-*) headers
+ */
+function readSignedHeaders(headers: PaywallHeaders): SuiPassProofPayload {
+  return {
+    passId: getHeader(headers, "x-pass-id")!,
+    signer: getHeader(headers, "x-signer")!,
+    signature: getHeader(headers, "x-sig")!,
+    timestamp: getHeader(headers, "x-ts")!,
+    consumeTx: getHeader(headers, "x-consume-tx"),
+    consumeSig: getHeader(headers, "x-consume-sig"),
+  };
+}
+
+/**
+ * The request x-sig must be bound to: method, canonical query and body hash
+ * @throws SignatureVerificationError if the request has a body the adapter did not pass on
+ */
+function receivedRequest(request: PaywallCoreRequest): SignedRequest {
+  const path = request.path || "";
+  const query =
+    request.query ?? (path.includes("?") ? path.slice(path.indexOf("?") + 1) : "");
+
+  // Fail closed: a body we cannot hash is not covered by the signature
+  if (
+    request.body === undefined &&
+    (Number(getHeader(request.headers, "content-length")) > 0 ||
+      getHeader(request.headers, "transfer-encoding") !== undefined)
+  ) {
+    throw new SignatureVerificationError(
+      "Request has a body but the raw body is not available to check the signature against",
+      "BODY_UNAVAILABLE"
+    );
+  }
+
+  return {
+    method: request.method.toUpperCase(),
+    query: canonicalizeQuery(query),
+    bodySha256: hashRequestBody(request.body),
+  };
+}
+
+/**
+ * Read a Fetch API request body for signature checks
+ * Only signed requests with a body are read, from a clone, so the route handler
+ * can still consume it
+ */
+export async function readFetchBody(request: {
+  method: string;
+  headers: { get(name: string): string | null };
+  clone(): { arrayBuffer(): Promise<ArrayBuffer> };
+}): Promise<Uint8Array | undefined> {
+  const method = request.method.toUpperCase();
+  const signed = !!request.headers.get("x-sig") || !!request.headers.get("x-payment");
+  if (method === "GET" || method === "HEAD" || !signed) {
+    return undefined;
+  }
+  return new Uint8Array(await request.clone().arrayBuffer());
+}
+
+function deny(status: number, error: string, message: string): PaywallDecision {
+  return { type: "deny", status, headers: {}, body: { error, message } };
+}
+
+/**
+ * Format a MIST amount as SUI without floating-point rounding
+ */
+function formatMist(mist: string): string {
+  const value = BigInt(mist);
+  const whole = value / 1_000_000_000n;
+  const fraction = (value % 1_000_000_000n).toString().padStart(9, "0").replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * Convert SUI amount to MIST
+ */
+function convertSuiToMist(price: string): string {
+  const suiAmount = parseFloat(price);
+  return Math.floor(suiAmount * 1_000_000_000).toString();
+}
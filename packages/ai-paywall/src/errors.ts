@@ -80,14 +80,158 @@ export class NoRemainingUsesError extends Error {
   }
 }
 
+/**
+ * Reason codes for signature verification failures
+ */
+export type SignatureFailureReason =
+  | 'MISSING_FIELDS'
+  | 'INVALID_TIMESTAMP'
+  | 'TIMESTAMP_OUT_OF_RANGE'
+  | 'MALFORMED_SIGNATURE'
+  | 'UNSUPPORTED_SCHEME'
+  | 'INVALID_SIGNATURE'
+  | 'SIGNER_MISMATCH'
+  | 'BODY_UNAVAILABLE';
+
 /**
  * Signature verification error
  */
 export class SignatureVerificationError extends Error {
   public readonly statusCode = 403;
 
-  constructor(message: string = 'Invalid signature') {
+  constructor(
+    message: string = 'Invalid signature',
+    public readonly reason: SignatureFailureReason = 'INVALID_SIGNATURE'
+  ) {
     super(message);
     this.name = 'SignatureVerificationError';
   }
 }
+
+/**
+ * Replayed request error (signature or challenge nonce reused)
+ */
+export class ReplayDetectedError extends Error {
+  public readonly statusCode = 403;
+
+  constructor(message: string = 'Request has already been used') {
+    super(message);
+    this.name = 'ReplayDetectedError';
+  }
+}
+
+/**
+ * Pass consumption error (server could not consume a use on-chain)
+ */
+export class PassConsumptionError extends Error {
+  public readonly statusCode = 403;
+
+  constructor(message: string = 'Failed to consume access pass') {
+    super(message);
+    this.name = 'PassConsumptionError';
+  }
+}
+
+/**
+ * Underpaid pass error (pass bought for less than the price, or paid to another receiver)
+ */
+export class UnderpaidPassError extends Error {
+  public readonly statusCode = 403;
+
+  constructor(message: string = 'Access pass was not paid in full to this paywall') {
+    super(message);
+    this.name = 'UnderpaidPassError';
+  }
+}
+
+/**
+ * Purchase settlement error (signed purchase_pass transaction rejected or failed)
+ */
+export class PurchaseSettlementError extends Error {
+  public readonly statusCode = 403;
+
+  constructor(message: string = 'Failed to settle purchase_pass transaction') {
+    super(message);
+    this.name = 'PurchaseSettlementError';
+  }
+}
+
+/**
+ * Invalid payment payload error (malformed X-PAYMENT header)
+ * Answered with a fresh 402 challenge carrying the reason
+ */
+export class InvalidPaymentPayloadError extends Error {
+  public readonly statusCode = 402;
+
+  constructor(message: string = 'Invalid X-PAYMENT header') {
+    super(message);
+    this.name = 'InvalidPaymentPayloadError';
+  }
+}
+
+/**
+ * Payment rejected by the facilitator
+ * Carries the facilitator's error name (e.g. UnderpaidPassError) and reason code
+ */
+export class PaymentRejectedError extends Error {
+  public readonly statusCode = 403;
+
+  constructor(
+    name: string = 'PaymentRejectedError',
+    message: string = 'Payment rejected by the facilitator',
+    public readonly reason?: string
+  ) {
+    super(message);
+    this.name = name;
+  }
+}
+
+/**
+ * Reason codes for payment challenge verification failures (client side)
+ */
+export type ChallengeFailureReason =
+  | 'UNSIGNED'
+  | 'EXPIRED'
+  | 'INVALID_SIGNATURE'
+  | 'UNTRUSTED_SIGNER'
+  | 'RECEIVER_MISMATCH'
+  | 'PRICE_MISMATCH';
+
+/**
+ * Challenge verification error
+ * Thrown by PaywallClient before paying for a 402 challenge it cannot trust
+ */
+export class ChallengeVerificationError extends Error {
+  constructor(
+    message: string = 'Payment challenge could not be verified',
+    public readonly reason: ChallengeFailureReason = 'INVALID_SIGNATURE'
+  ) {
+    super(message);
+    this.name = 'ChallengeVerificationError';
+  }
+}
+
+/**
+ * Reason codes for spending policy refusals (client side)
+ */
+export type SpendLimitReason =
+  | 'PER_REQUEST'
+  | 'PER_DOMAIN'
+  | 'DAILY'
+  | 'DOMAIN_DENIED'
+  | 'RECEIVER_DENIED'
+  | 'NOT_APPROVED';
+
+/**
+ * Spend limit exceeded error
+ * Thrown by PaywallClient instead of paying a challenge its spending policy refuses
+ */
+export class SpendLimitExceededError extends Error {
+  constructor(
+    message: string = 'Payment refused by the spending policy',
+    public readonly reason: SpendLimitReason = 'PER_REQUEST'
+  ) {
+    super(message);
+    this.name = 'SpendLimitExceededError';
+  }
+}
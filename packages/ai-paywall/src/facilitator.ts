@@ -0,0 +1,503 @@
+// Facilitator service
+// Verifies and settles payments for content servers over HTTP, so the servers
+// themselves make no Sui RPC calls (see the `facilitatorUrl` middleware option)
+
+import { IncomingMessage, ServerResponse } from "http";
+import { SuiClient } from "@mysten/sui.js/client";
+import { normalizeSuiAddress } from "@mysten/sui.js/utils";
+import { AccessPass, SuiClientInjection } from "./types";
+import {
+  InvalidPaymentPayloadError,
+  PurchaseSettlementError,
+  UnderpaidPassError,
+} from "./errors";
+import { NetworkConfig, NetworkOption, resolveNetworkConfig } from "./config/networks";
+import {
+  ResourceEntry,
+  createSuiClient,
+  createSealSuiClient,
+  fetchResourceEntry,
+} from "./utils/sui";
+import { ConsumptionResult } from "./utils/consumption";
+import { validatePurchaseTransaction } from "./utils/settlement";
+import {
+  X402_VERSION,
+  SUI_EXACT_SCHEME,
+  X402PaymentPayload,
+  X402PaymentRequirements,
+  X402SettlementResponse,
+  SuiPassProofPayload,
+  isSignedTransactionPayload,
+  x402NetworkName,
+} from "./utils/x402";
+import { ReplayGuard, ReplayGuardOptions } from "./utils/replay";
+import { PaywallCache, PaywallCacheOptions } from "./utils/cache";
+import { LoggerLike, LogLevel, PaywallLogger } from "./utils/logger";
+import { PassVerifier, PaymentProof, PaymentTerms, maxPassUses } from "./verifier";
+
+// The HTTP client lives with the wire format, so servers calling a facilitator
+// do not load this module
+export { callFacilitator } from "./utils/x402";
+
+const INACTIVE_MESSAGE = "This resource is currently inactive";
+
+/**
+ * Largest request body handler() reads (64 KiB, far above a signed transaction)
+ */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Body of POST /verify and POST /settle
+ */
+export interface FacilitatorRequest {
+  x402Version: number;
+  /** Decoded X-PAYMENT header */
+  paymentPayload: X402PaymentPayload;
+  /** Requirements the payment must meet (the `accepts` entry of the 402 response) */
+  paymentRequirements: X402PaymentRequirements;
+}
+
+/**
+ * Response of POST /verify
+ */
+export interface FacilitatorVerifyResponse {
+  isValid: boolean;
+  /** Error name, e.g. `UnderpaidPassError` */
+  invalidReason?: string;
+  message?: string;
+  /** Signature failure reason code (SignatureVerificationError only) */
+  reason?: string;
+  payer?: string;
+}
+
+/**
+ * Response of POST /settle
+ */
+export interface FacilitatorSettleResponse extends X402SettlementResponse {
+  message?: string;
+  /** Signature failure reason code (SignatureVerificationError only) */
+  reason?: string;
+  /** Object ID of the verified pass */
+  passId?: string;
+  /** Verified pass, after settlement */
+  accessPass?: AccessPass;
+  /** Confirmed consume_pass transaction (relay mode only) */
+  consumption?: ConsumptionResult;
+  /** Registry entry of the resource, null if not registered */
+  resourceEntry?: ResourceEntry | null;
+}
+
+/**
+ * Options for the facilitator
+ */
+export interface FacilitatorOptions extends SuiClientInjection {
+  /** Network profile or custom deployment (default: 'testnet') */
+  network?: NetworkOption;
+  /** Replay protection settings (enabled by default with an in-memory store) */
+  replayProtection?: ReplayGuardOptions | false;
+  /** AccessPass / ResourceEntry lookup cache (enabled by default, in-memory) */
+  cache?: PaywallCacheOptions | PaywallCache | false;
+  /** Logger: a pino/winston-compatible instance, a PaywallLogger, or a console log level */
+  logger?: LoggerLike | LogLevel | PaywallLogger;
+  /** Extra log field names to redact, or false to log secrets as-is (debugging only) */
+  redactLogFields?: string[] | false;
+  /**
+   * Decide whether an HTTP caller may use POST /verify and /settle (answered 401 otherwise)
+   * e.g. compare a shared secret the middleware sends with `facilitatorHeaders`.
+   * Without it the endpoints are open to anyone who can reach them
+   */
+  authorize?: (req: IncomingMessage) => boolean | Promise<boolean>;
+  /** Domains this facilitator settles payments for (default: any) */
+  domains?: string[];
+}
+
+/**
+ * Payment facilitator
+ *
+ * - `verify()` checks a payment without side effects: pass proofs are checked like the
+ *   middleware would, signed purchase transactions are validated and dry-run
+ * - `settle()` submits the purchase (or relay consume_pass) transaction, verifies the
+ *   resulting pass and records it with the replay guard
+ *
+ * Use `handler()` to serve both over HTTP (POST /verify, POST /settle, GET /supported).
+ */
+export class Facilitator {
+  private readonly network: NetworkConfig;
+  private readonly networkName: string;
+  private readonly suiClient: SuiClient;
+  private readonly cache: PaywallCache | null;
+  private readonly verifier: PassVerifier;
+  private readonly logger: PaywallLogger;
+  private readonly authorize?: (req: IncomingMessage) => boolean | Promise<boolean>;
+  private readonly domains: string[] | null;
+
+  constructor(options: FacilitatorOptions = {}) {
+    this.network = resolveNetworkConfig(options.network);
+    this.networkName = x402NetworkName(options.network);
+    this.suiClient =
+      options.suiClient || createSuiClient(this.network.rpcUrl, options.transport);
+    this.cache =
+      options.cache === false
+        ? null
+        : options.cache instanceof PaywallCache
+        ? options.cache
+        : new PaywallCache(options.cache || {});
+    this.verifier = new PassVerifier({
+      packageId: this.network.packageId,
+      suiClient: this.suiClient,
+      sealSuiClient:
+        options.sealSuiClient ||
+        createSealSuiClient(this.network.rpcUrl, options.transport),
+      replayGuard:
+        options.replayProtection === false
+          ? null
+          : new ReplayGuard(options.replayProtection || {}),
+      cache: this.cache,
+    });
+    this.logger =
+      options.logger instanceof PaywallLogger
+        ? options.logger
+        : new PaywallLogger(options.logger, { redact: options.redactLogFields });
+    this.authorize = options.authorize;
+    this.domains = options.domains || null;
+  }
+
+  /**
+   * Payment kinds this facilitator handles
+   */
+  supported(): { kinds: Array<{ x402Version: number; scheme: string; network: string }> } {
+    return {
+      kinds: [{ x402Version: X402_VERSION, scheme: SUI_EXACT_SCHEME, network: this.networkName }],
+    };
+  }
+
+  /**
+   * Check a payment without submitting anything or recording it
+   */
+  async verify(request: FacilitatorRequest): Promise<FacilitatorVerifyResponse> {
+    const log = this.logger.child({ facilitator: "verify" });
+
+    try {
+      const terms = this.readTerms(request);
+      const payload = request.paymentPayload.payload;
+      const resourceEntry = await this.fetchEntry(terms, log);
+      if (resourceEntry && !resourceEntry.active) {
+        return { isValid: false, invalidReason: "ResourceInactive", message: INACTIVE_MESSAGE };
+      }
+
+      if (isSignedTransactionPayload(payload)) {
+        const payer = validatePurchaseTransaction(payload.transaction, {
+          packageId: this.network.packageId,
+          domain: terms.domain,
+          resource: terms.resource,
+          receiver: terms.receiver,
+          maxUses: maxPassUses(terms, true),
+        });
+        await this.dryRunPurchase(payload.transaction, terms);
+        log.info("Purchase transaction verified", { payer });
+        return { isValid: true, payer };
+      }
+
+      const proof = this.readProof(request, payload);
+      await this.verifier.verify(proof, terms, log, false);
+      log.info("Pass proof verified", { payer: proof.signer, passId: proof.passId });
+      return { isValid: true, payer: proof.signer };
+    } catch (error: any) {
+      log.warn(error?.message || "Verification failed", { error: error?.name });
+      return {
+        isValid: false,
+        invalidReason: error?.name || "Error",
+        message: error?.message,
+        reason: error?.reason,
+      };
+    }
+  }
+
+  /**
+   * Settle a payment: submit the purchase or consume_pass transaction and verify the pass
+   */
+  async settle(request: FacilitatorRequest): Promise<FacilitatorSettleResponse> {
+    const log = this.logger.child({ facilitator: "settle" });
+
+    try {
+      const terms = this.readTerms(request);
+      const payload = request.paymentPayload.payload;
+      const resourceEntry = await this.fetchEntry(terms, log);
+      if (resourceEntry && !resourceEntry.active) {
+        return {
+          success: false,
+          errorReason: "ResourceInactive",
+          message: INACTIVE_MESSAGE,
+          transaction: "",
+          network: this.networkName,
+          payer: "",
+        };
+      }
+
+      const proof = isSignedTransactionPayload(payload)
+        ? await this.verifier.settlePurchase(payload, terms, log)
+        : this.readProof(request, payload);
+      const accessPass = await this.verifier.verify(proof, terms, log);
+
+      // Relay mode: one use is consumed per settlement (a purchase pays for itself)
+      const consumption =
+        request.paymentRequirements.extra.consumptionMode === "relay" && !proof.settlement
+          ? await this.verifier.consume(proof, accessPass, log)
+          : undefined;
+
+      log.info("Payment settled", { payer: proof.signer, passId: proof.passId });
+      return {
+        success: true,
+        transaction: proof.settlement?.digest || consumption?.digest || "",
+        network: this.networkName,
+        payer: proof.signer,
+        passId: proof.passId,
+        accessPass,
+        consumption,
+        resourceEntry,
+      };
+    } catch (error: any) {
+      log.warn(error?.message || "Settlement failed", { error: error?.name });
+      return {
+        success: false,
+        errorReason: error?.name || "Error",
+        message: error?.message,
+        reason: error?.reason,
+        transaction: "",
+        network: this.networkName,
+        payer: "",
+      };
+    }
+  }
+
+  /**
+   * Node.js request handler serving POST /verify, POST /settle and GET /supported
+   * Works with http.createServer and as Express middleware (app.use('/facilitator', ...))
+   * POST requests must pass the `authorize` hook; bodies over 64 KiB are refused
+   */
+  handler(): (req: IncomingMessage & { body?: unknown }, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      const path = (req.url || "/").split("?")[0].replace(/\/+$/, "");
+      const send = (status: number, body: unknown) => {
+        res.statusCode = status;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.method === "GET" && path === "/supported") {
+        send(200, this.supported());
+        return;
+      }
+      if (req.method !== "POST" || (path !== "/verify" && path !== "/settle")) {
+        send(404, { error: "NotFound", message: `No route for ${req.method} ${path || "/"}` });
+        return;
+      }
+
+      // A throwing hook must still get an answer (fail closed)
+      let authorized: boolean;
+      try {
+        authorized = !this.authorize || (await this.authorize(req));
+      } catch (error) {
+        this.logger.error("Authorize hook failed", { error });
+        send(500, { error: "InternalServerError", message: "Could not authorize the caller" });
+        return;
+      }
+      if (!authorized) {
+        send(401, { error: "Unauthorized", message: "Caller is not allowed to use this facilitator" });
+        return;
+      }
+
+      let request: FacilitatorRequest;
+      try {
+        request = (req.body && typeof req.body === "object" ? req.body : await readJson(req)) as FacilitatorRequest;
+      } catch (error: any) {
+        if (error instanceof BodyTooLargeError) {
+          res.setHeader("Connection", "close");
+          send(413, { error: "PayloadTooLarge", message: error.message });
+          return;
+        }
+        send(400, { error: "BadRequest", message: "Request body must be JSON" });
+        return;
+      }
+
+      try {
+        send(200, path === "/verify" ? await this.verify(request) : await this.settle(request));
+      } catch (error: any) {
+        this.logger.error("Facilitator error", { error });
+        send(500, { error: "InternalServerError", message: error?.message || "Facilitator error" });
+      }
+    };
+  }
+
+  /**
+   * Payment terms from the requirements (must be for this facilitator's network and package)
+   */
+  private readTerms(request: FacilitatorRequest): PaymentTerms {
+    const { paymentPayload, paymentRequirements } = request || ({} as FacilitatorRequest);
+    if (!paymentPayload || !paymentRequirements?.extra) {
+      throw new InvalidPaymentPayloadError("paymentPayload and paymentRequirements are required");
+    }
+    if (
+      paymentRequirements.scheme !== SUI_EXACT_SCHEME ||
+      paymentRequirements.network !== this.networkName ||
+      paymentPayload.scheme !== SUI_EXACT_SCHEME ||
+      paymentPayload.network !== this.networkName
+    ) {
+      throw new InvalidPaymentPayloadError(
+        `Unsupported payment scheme (this facilitator handles ${SUI_EXACT_SCHEME} on ${this.networkName})`
+      );
+    }
+    if (
+      normalizeSuiAddress(paymentRequirements.extra.packageId) !==
+      normalizeSuiAddress(this.network.packageId)
+    ) {
+      throw new InvalidPaymentPayloadError("Payment requirements are for a different package");
+    }
+    if (this.domains && !this.domains.includes(paymentRequirements.extra.domain)) {
+      throw new InvalidPaymentPayloadError(
+        `This facilitator does not settle payments for ${paymentRequirements.extra.domain}`
+      );
+    }
+
+    return {
+      domain: paymentRequirements.extra.domain,
+      resource: paymentRequirements.extra.resource,
+      priceInMist: paymentRequirements.maxAmountRequired,
+      receiver: paymentRequirements.payTo,
+      maxUses: paymentRequirements.extra.maxUses,
+      validityMs: paymentRequirements.extra.validityMs,
+      relay: paymentRequirements.extra.consumptionMode === "relay",
+    };
+  }
+
+  /**
+   * Pass proof from the payload (relay mode needs the pre-signed consume_pass transaction)
+   */
+  private readProof(request: FacilitatorRequest, payload: SuiPassProofPayload): PaymentProof {
+    if (
+      request.paymentRequirements.extra.consumptionMode === "relay" &&
+      (!payload.consumeTx || !payload.consumeSig)
+    ) {
+      throw new InvalidPaymentPayloadError("Relay mode requires consumeTx and consumeSig");
+    }
+    return { ...payload, x402: true };
+  }
+
+  /**
+   * Look up the registry entry
+   * Requirements below the registry price or paying another receiver are refused,
+   * so callers cannot have passes checked against terms of their own choosing
+   * @throws UnderpaidPassError if the requirements undercut the registry
+   */
+  private async fetchEntry(terms: PaymentTerms, log: PaywallLogger): Promise<ResourceEntry | null> {
+    const loadResourceEntry = () =>
+      fetchResourceEntry(
+        this.network.registryId,
+        this.network.packageId,
+        terms.domain,
+        terms.resource,
+        this.suiClient,
+        undefined,
+        log
+      );
+    const entry = this.cache
+      ? await this.cache.getResourceEntry(terms.domain, terms.resource, loadResourceEntry)
+      : await loadResourceEntry();
+
+    if (
+      entry &&
+      (BigInt(terms.priceInMist) < BigInt(entry.price) ||
+        normalizeSuiAddress(entry.receiver) !== normalizeSuiAddress(terms.receiver))
+    ) {
+      log.warn("Payment requirements undercut the registry", {
+        domain: terms.domain,
+        resource: terms.resource,
+        priceInMist: terms.priceInMist,
+        registryPrice: entry.price,
+        receiver: terms.receiver,
+        registryReceiver: entry.receiver,
+      });
+      throw new UnderpaidPassError(
+        "Payment requirements ask less than the registry price or pay a different receiver"
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Dry-run a purchase transaction and check the price it would pay
+   */
+  private async dryRunPurchase(txBytes: string, terms: PaymentTerms): Promise<void> {
+    let result;
+    try {
+      result = await this.suiClient.dryRunTransactionBlock({ transactionBlock: txBytes });
+    } catch (error: any) {
+      throw new PurchaseSettlementError(
+        `Failed to dry-run purchase_pass transaction: ${error.message || "Unknown error"}`
+      );
+    }
+
+    if (result.effects.status.status !== "success") {
+      throw new PurchaseSettlementError(
+        `purchase_pass transaction would fail: ${result.effects.status.error || "Unknown error"}`
+      );
+    }
+
+    const purchasedEvent = result.events.find((event) =>
+      event.type.endsWith("::paywall::PassPurchased")
+    );
+    const pricePaid = String((purchasedEvent?.parsedJson as any)?.price_paid ?? "0");
+    if (BigInt(pricePaid) < BigInt(terms.priceInMist)) {
+      throw new UnderpaidPassError(
+        `purchase_pass transaction pays ${pricePaid} MIST, price is ${terms.priceInMist} MIST`
+      );
+    }
+  }
+}
+
+/**
+ * Request body larger than MAX_BODY_BYTES
+ */
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+/**
+ * Read and parse a JSON request body (at most MAX_BODY_BYTES)
+ */
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+      req.resume();
+      reject(new BodyTooLargeError());
+      return;
+    }
+
+    let data = "";
+    let size = 0;
+    const onData = (chunk: string) => {
+      size += Buffer.byteLength(chunk);
+      if (size > MAX_BODY_BYTES) {
+        // Stop buffering; the rest of the body is drained and dropped
+        req.off("data", onData);
+        req.resume();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      data += chunk;
+    };
+    req.setEncoding("utf8");
+    req.on("data", onData);
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data || "{}"));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
@@ -4,10 +4,19 @@ export { paywall } from './middleware';
 export type {
   PaywallOptions,
   PaywallRequest,
+  PaywallContext,
+  PaywallResourceEntry,
+  PaywallHeaders,
+  PaywallCoreRequest,
+  PaywallDecision,
+  PaywallErrorBody,
+  PaywallRouteConfig,
   PaywallMiddleware,
   PaymentChallenge,
   AccessPass,
   SignedHeaders,
+  SuiClientInjection,
+  PaywallClientOptions,
 } from './types';
 
 export {
@@ -16,7 +25,137 @@ export {
   ExpiredPassError,
   NoRemainingUsesError,
   SignatureVerificationError,
+  ReplayDetectedError,
+  PassConsumptionError,
+  UnderpaidPassError,
+  PurchaseSettlementError,
+  InvalidPaymentPayloadError,
+  PaymentRejectedError,
+  ChallengeVerificationError,
+  SpendLimitExceededError,
 } from './errors';
+export type { SignatureFailureReason, ChallengeFailureReason, SpendLimitReason } from './errors';
+
+// Framework-agnostic core and adapters
+export { PaywallCore } from './core';
+export { fastifyPaywall } from './adapters/fastify';
+export { koaPaywall } from './adapters/koa';
+export { honoPaywall } from './adapters/hono';
+export { withPaywall } from './adapters/next';
+export type { FastifyRequestLike, FastifyReplyLike } from './adapters/fastify';
+export type { KoaContextLike } from './adapters/koa';
+export type { HonoContextLike } from './adapters/hono';
+export type { NextRequestLike, PaywalledRouteHandler } from './adapters/next';
+
+// Route table
+export { RouteTable } from './utils/routes';
+export type { RouteMatch } from './utils/routes';
+
+// Network profiles
+export { NETWORK_PROFILES, resolveNetworkConfig, validateNetworkConfig } from './config/networks';
+export type { NetworkName, NetworkConfig, NetworkOption } from './config/networks';
+
+// Structured logging
+export { PaywallLogger } from './utils/logger';
+export type { LoggerLike, LogLevel, LogFields, PaywallLoggerOptions } from './utils/logger';
+
+// Replay protection
+export { ReplayGuard, MemoryReplayStore } from './utils/replay';
+export type { ReplayStore, ReplayGuardOptions } from './utils/replay';
+
+// Lookup cache
+export { PaywallCache, MemoryCacheBackend } from './utils/cache';
+export type { CacheBackend, CacheRecord, PaywallCacheOptions } from './utils/cache';
+
+// Event-driven cache invalidation
+export {
+  PaywallEventWatcher,
+  MemoryCursorStore,
+  FileCursorStore,
+} from './utils/watcher';
+export type { CursorStore, EventWatcherOptions } from './utils/watcher';
+
+// Server-side pass consumption
+export type { ConsumptionResult } from './utils/consumption';
+
+// x402 wire format and purchase settlement
+export {
+  X402_VERSION,
+  SUI_EXACT_SCHEME,
+  SUI_COIN_TYPE,
+  x402NetworkName,
+  encodePaymentHeader,
+  decodePaymentHeader,
+  encodePaymentResponse,
+  decodePaymentResponse,
+} from './utils/x402';
+export type {
+  X402PaymentRequirements,
+  X402PaymentPayload,
+  X402SettlementResponse,
+  SuiPassProofPayload,
+  SuiSignedTransactionPayload,
+} from './utils/x402';
+export { validatePurchaseTransaction, submitPurchaseTransaction } from './utils/settlement';
+export type { PurchaseSettlement, PurchaseExpectation } from './utils/settlement';
+
+// Facilitator service and shared pass verification
+export { Facilitator, callFacilitator } from './facilitator';
+export type {
+  FacilitatorOptions,
+  FacilitatorRequest,
+  FacilitatorVerifyResponse,
+  FacilitatorSettleResponse,
+} from './facilitator';
+export { PassVerifier } from './verifier';
+export type { PassVerifierOptions, PaymentTerms, PaymentProof } from './verifier';
+
+// Request-bound access signatures
+export {
+  EMPTY_BODY_SHA256,
+  createSignMessage,
+  createSignedRequest,
+  canonicalizeQuery,
+  hashRequestBody,
+} from './utils/signature';
+export type { SignedRequest } from './utils/signature';
+
+// Signed payment challenges
+export {
+  DEFAULT_CHALLENGE_TTL_MS,
+  createChallengeMessage,
+  signChallenge,
+  verifyChallengeSignature,
+} from './utils/challenge';
+
+// Client spending policy
+export { SpendingPolicy, MemorySpendLedger, FileSpendLedger, challengeAmountMist } from './utils/spending';
+export type { SpendingPolicyOptions, SpendLedger, SpendRecord, SpendReservation } from './utils/spending';
+
+// Local pass wallet
+export { MemoryPassStore, FilePassStore, SqlitePassStore, isStoredPassUsable } from './utils/passes';
+export type { PassStore, StoredPass, SqliteDatabaseLike } from './utils/passes';
+
+// Client signers
+export { KeypairSigner, RemoteSigner } from './signer';
+export type { Signer, SignedBytes, SignerKeyScheme, RemoteSignerOptions } from './signer';
 
 // Client SDK for bots
-export { PaywallClient } from './client';
+export { PaywallClient, createPaywallFetch, isPaymentChallenge } from './client';
+export type { PaywallFetchInit, PaymentAttempt } from './client';
+
+// HTTP client integrations (pay for 402s in axios and undici)
+export { attachPaywallInterceptor } from './integrations/axios';
+export type {
+  AxiosInstanceLike,
+  AxiosRequestConfigLike,
+  AxiosResponseLike,
+  PaywallAxiosOptions,
+} from './integrations/axios';
+export { createPaywallRequest } from './integrations/undici';
+export type {
+  UndiciRequestLike,
+  UndiciRequestOptionsLike,
+  UndiciResponseDataLike,
+  PaywallUndiciOptions,
+} from './integrations/undici';
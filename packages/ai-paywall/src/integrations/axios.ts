@@ -0,0 +1,208 @@
+// Axios integration
+// A response interceptor that pays for paywall 402s through PaywallClient and
+// replays the request with the payment headers
+
+import { PaywallClient, isPaymentChallenge } from '../client';
+import { getHeader } from '../utils/headers';
+import { PaywallHeaders } from '../types';
+import { createSignedRequest } from '../utils/signature';
+
+/**
+ * Wait between attempts at the paid request (as `client.access()`)
+ */
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Request config fields used by the interceptor
+ */
+export interface AxiosRequestConfigLike {
+  method?: string;
+  url?: string;
+  /** Request body after axios' transformRequest */
+  data?: unknown;
+  headers?: unknown;
+  /** Set on the replayed request, so a second 402 is not paid again */
+  paywallRetry?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Response fields used by the interceptor
+ */
+export interface AxiosResponseLike {
+  status: number;
+  data: unknown;
+  headers: unknown;
+  config: AxiosRequestConfigLike;
+}
+
+/**
+ * Axios instance methods used by the interceptor (the default export or axios.create())
+ */
+export interface AxiosInstanceLike {
+  interceptors: {
+    response: {
+      use(onFulfilled?: (response: any) => any, onRejected?: (error: any) => any): number;
+      eject(id: number): void;
+    };
+  };
+  request(config: any): Promise<any>;
+  /** Full URL of a request config, with baseURL and params applied */
+  getUri(config?: any): string;
+}
+
+/**
+ * Options for the axios interceptor
+ */
+export interface PaywallAxiosOptions {
+  /** Send a new purchase with the replayed request when the server supports x402 (default: true) */
+  payInRequest?: boolean;
+  /**
+   * Attempts at the paid request, as in `client.access()` (default: 1)
+   * Network errors and 5xx responses are retried with freshly signed payment
+   * headers. A purchase sent in the request is never retried, so it cannot be paid twice
+   */
+  retries?: number;
+}
+
+/**
+ * Pay for paywall 402 responses on an axios instance
+ *
+ * Works whether 402 rejects (the axios default) or resolves through `validateStatus`.
+ * Passes are reused or bought through the client, with its spending policy and
+ * pass store, and the request is replayed with the payment headers (up to `retries`
+ * times on network errors and 5xx). A second 402, and 402s without a payment
+ * challenge, reach the caller unchanged.
+ *
+ * @returns A function that removes the interceptor
+ *
+ * @example
+ * ```javascript
+ * const axios = require('axios');
+ * const api = axios.create({ baseURL: 'https://example.com' });
+ * attachPaywallInterceptor(api, client);
+ * const { data } = await api.post('/api/search', { query: 'sui' });
+ * ```
+ */
+export function attachPaywallInterceptor(
+  axios: AxiosInstanceLike,
+  client: PaywallClient,
+  options: PaywallAxiosOptions = {}
+): () => void {
+  const attempts = Math.max(1, options.retries ?? 1);
+
+  // Resolves with the paid response, or null when the 402 is not ours to pay
+  const pay = async (response: AxiosResponseLike): Promise<AxiosResponseLike | null> => {
+    const config = response.config;
+    const challenge = parseBody(response.data);
+    if (!config || config.paywallRetry || !isPaymentChallenge(challenge)) {
+      return null;
+    }
+    const signedRequest = createSignedRequest(
+      config.method || 'get',
+      axios.getUri(config),
+      readBody(config.data)
+    );
+
+    for (let attempt = 1; ; attempt++) {
+      const payment = await client.preparePayment(challenge, signedRequest, options.payInRequest);
+      const retry = attempt < attempts && !payment.payInRequest;
+
+      let paid: AxiosResponseLike;
+      try {
+        paid = await axios.request({
+          ...config,
+          headers: { ...plainHeaders(config.headers), ...payment.headers },
+          // The body was transformed already; send the exact bytes that were signed
+          transformRequest: [(data: unknown) => data],
+          paywallRetry: true,
+        });
+      } catch (error: any) {
+        payment.release();
+        const status: number | undefined = error?.response?.status;
+        if (retry && (status === undefined || status >= 500)) {
+          await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+          continue;
+        }
+        throw error;
+      }
+      if (paid.status >= 200 && paid.status < 300) {
+        const headers = plainHeaders(paid.headers) as PaywallHeaders;
+        await client.completePayment(payment, {
+          headers: { get: (name) => getHeader(headers, name.toLowerCase()) ?? null },
+        });
+        return paid;
+      }
+      payment.release();
+      if (retry && paid.status >= 500) {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+        continue;
+      }
+      return paid;
+    }
+  };
+
+  const id = axios.interceptors.response.use(
+    async (response: AxiosResponseLike) =>
+      response?.status === 402 ? (await pay(response)) ?? response : response,
+    async (error: { response?: AxiosResponseLike }) => {
+      if (error?.response?.status === 402) {
+        const paid = await pay(error.response);
+        if (paid) {
+          return paid;
+        }
+      }
+      throw error;
+    }
+  );
+
+  return () => axios.interceptors.response.eject(id);
+}
+
+/**
+ * Response body as JSON (axios leaves it as text or bytes for some response types)
+ */
+function parseBody(data: unknown): unknown {
+  if (typeof data === 'string' || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    const text = typeof data === 'string' ? data : new TextDecoder().decode(data as ArrayBuffer | Uint8Array);
+    try {
+      return JSON.parse(text);
+    } catch {
+      return null;
+    }
+  }
+  return data;
+}
+
+/**
+ * Request body bytes to sign
+ * @throws Error for streams and multipart bodies, which cannot be hashed and replayed
+ */
+function readBody(data: unknown): string | Uint8Array | undefined {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (data instanceof URLSearchParams) {
+    return data.toString();
+  }
+  throw new Error('Cannot pay for a request with a streamed or multipart body; send a string or buffer');
+}
+
+/**
+ * Plain header object from AxiosHeaders or a header record
+ */
+function plainHeaders(headers: unknown): Record<string, unknown> {
+  if (headers && typeof (headers as { toJSON?: unknown }).toJSON === 'function') {
+    return (headers as { toJSON(): Record<string, unknown> }).toJSON();
+  }
+  return { ...(headers as Record<string, unknown>) };
+}
@@ -0,0 +1,207 @@
+// undici integration
+// Wraps undici's request() so paywall 402s are paid through PaywallClient and
+// the request is replayed with the payment headers
+
+import { Readable } from 'stream';
+import { PaywallClient, isPaymentChallenge } from '../client';
+import { getHeader } from '../utils/headers';
+import { createSignedRequest } from '../utils/signature';
+
+/**
+ * Wait between attempts at the paid request (as `client.access()`)
+ */
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * request() options used by the wrapper (everything else, e.g. `dispatcher`, is passed through)
+ */
+export interface UndiciRequestOptionsLike {
+  method?: string;
+  headers?: Record<string, string | string[] | undefined> | string[] | null;
+  body?: unknown;
+  query?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * request() result fields used by the wrapper
+ */
+export interface UndiciResponseDataLike {
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: { text(): Promise<string> };
+}
+
+/**
+ * undici's request(), or a dispatcher's request method bound to it
+ */
+export type UndiciRequestLike<R extends UndiciResponseDataLike> = (
+  url: string | URL,
+  options?: UndiciRequestOptionsLike
+) => Promise<R>;
+
+/**
+ * Options for the undici wrapper
+ */
+export interface PaywallUndiciOptions {
+  /** Send a new purchase with the replayed request when the server supports x402 (default: true) */
+  payInRequest?: boolean;
+  /**
+   * Attempts at the paid request, as in `client.access()` (default: 1)
+   * Network errors and 5xx responses are retried with freshly signed payment
+   * headers. A purchase sent in the request is never retried, so it cannot be paid twice
+   */
+  retries?: number;
+}
+
+/**
+ * Wrap undici's request() to pay for paywall 402 responses
+ *
+ * Same signature as `request`. Passes are reused or bought through the client,
+ * with its spending policy and pass store, and the request is replayed with the
+ * payment headers (up to `retries` times on network errors and 5xx). A 402 without
+ * a payment challenge is returned with its body buffered; a second 402 is returned as-is. Route undici's fetch() through
+ * `client.fetch()` / `createPaywallFetch()` instead.
+ *
+ * @example
+ * ```javascript
+ * const { request } = require('undici');
+ * const paidRequest = createPaywallRequest(client, request);
+ * const { statusCode, body } = await paidRequest('https://example.com/api/search', {
+ *   method: 'POST',
+ *   headers: { 'content-type': 'application/json' },
+ *   body: JSON.stringify({ query: 'sui' }),
+ * });
+ * ```
+ */
+export function createPaywallRequest<R extends UndiciResponseDataLike>(
+  client: PaywallClient,
+  request: UndiciRequestLike<R>,
+  options: PaywallUndiciOptions = {}
+): UndiciRequestLike<R> {
+  const attempts = Math.max(1, options.retries ?? 1);
+
+  return async (url, requestOptions = {}) => {
+    const response = await request(url, requestOptions);
+    if (response.statusCode !== 402) {
+      return response;
+    }
+
+    // The 402 body has to be read to see the challenge (and to free the connection)
+    const text = await response.body.text();
+    let challenge: unknown = null;
+    try {
+      challenge = JSON.parse(text);
+    } catch {
+      // Not JSON - not a paywall challenge
+    }
+    if (!isPaymentChallenge(challenge)) {
+      return { ...response, body: bufferedBody(text) } as R;
+    }
+
+    const signedRequest = createSignedRequest(
+      requestOptions.method || 'GET',
+      requestUrl(url, requestOptions.query),
+      readBody(requestOptions.body)
+    );
+
+    for (let attempt = 1; ; attempt++) {
+      const payment = await client.preparePayment(challenge, signedRequest, options.payInRequest);
+      const retry = attempt < attempts && !payment.payInRequest;
+
+      let paid: R;
+      try {
+        paid = await request(url, {
+          ...requestOptions,
+          headers: { ...plainHeaders(requestOptions.headers), ...payment.headers },
+        });
+      } catch (error) {
+        payment.release();
+        if (retry) {
+          await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+          continue;
+        }
+        throw error;
+      }
+      if (paid.statusCode >= 200 && paid.statusCode < 300) {
+        const headers = paid.headers;
+        await client.completePayment(payment, {
+          headers: { get: (name) => getHeader(headers, name.toLowerCase()) ?? null },
+        });
+        return paid;
+      }
+      payment.release();
+      if (retry && paid.statusCode >= 500) {
+        // Free the connection before sending again
+        await paid.body.text().catch(() => undefined);
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+        continue;
+      }
+      return paid;
+    }
+  };
+}
+
+/**
+ * Full request URL with the `query` option applied (as undici serializes it)
+ */
+function requestUrl(url: string | URL, query?: Record<string, unknown>): string {
+  const target = new URL(String(url));
+  for (const [name, value] of Object.entries(query || {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        target.searchParams.append(name, String(item));
+      }
+    }
+  }
+  return target.href;
+}
+
+/**
+ * Request body bytes to sign
+ * @throws Error for streams, iterables and FormData, which cannot be hashed and replayed
+ */
+function readBody(body: unknown): string | Uint8Array | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (body instanceof Uint8Array) {
+    return body;
+  }
+  throw new Error('Cannot pay for a request with a streamed or multipart body; send a string or buffer');
+}
+
+/**
+ * Header object from undici's object or flat [name, value, ...] array form
+ */
+function plainHeaders(headers: UndiciRequestOptionsLike['headers']): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  if (Array.isArray(headers)) {
+    for (let i = 0; i + 1 < headers.length; i += 2) {
+      result[headers[i]] = headers[i + 1];
+    }
+    return result;
+  }
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Stand-in for a response body that was read already (same readers as undici's body)
+ */
+function bufferedBody(text: string) {
+  const bytes = Buffer.from(text, 'utf8');
+  return Object.assign(Readable.from([bytes]), {
+    text: async () => text,
+    json: async () => JSON.parse(text),
+    arrayBuffer: async () => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+    dump: async () => undefined,
+  });
+}
@@ -0,0 +1,158 @@
+// Signers for PaywallClient
+// Everything the client signs (transactions, x-sig messages, Seal session keys)
+// goes through a Signer, so keys can live in memory, a KMS or a remote service
+
+import { Keypair, decodeSuiPrivateKey } from '@mysten/sui.js/cryptography';
+import { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui.js/keypairs/secp256k1';
+import { Secp256r1Keypair } from '@mysten/sui.js/keypairs/secp256r1';
+import { fromB64, toB64, normalizeSuiAddress } from '@mysten/sui.js/utils';
+import { verifyPersonalMessageSignature, verifyTransactionSignature } from '@mysten/sui/verify';
+
+/**
+ * Key schemes supported for local keys
+ */
+export type SignerKeyScheme = 'ED25519' | 'Secp256k1' | 'Secp256r1';
+
+/**
+ * Signed bytes and their serialized Sui signature (both base64)
+ */
+export interface SignedBytes {
+  bytes: string;
+  signature: string;
+}
+
+/**
+ * Anything that can sign for a Sui address
+ */
+export interface Signer {
+  /** Sui address of the signing key */
+  readonly address: string;
+  /** Sign built transaction bytes */
+  signTransaction(txBytes: Uint8Array): Promise<SignedBytes>;
+  /** Sign a personal message (x-sig, Seal session keys) */
+  signPersonalMessage(message: Uint8Array): Promise<SignedBytes>;
+}
+
+/**
+ * Signer backed by an in-memory Ed25519, Secp256k1 or Secp256r1 keypair
+ */
+export class KeypairSigner implements Signer {
+  public readonly address: string;
+
+  constructor(private readonly keypair: Keypair) {
+    this.address = keypair.toSuiAddress();
+  }
+
+  /**
+   * Build a signer from a private key
+   * Sui bech32 keys (suiprivkey1...) carry their scheme; base64 and hex keys
+   * are read as `scheme` (default: ED25519)
+   */
+  static fromPrivateKey(privateKey: string, scheme: SignerKeyScheme = 'ED25519'): KeypairSigner {
+    let secretKey: Uint8Array;
+    if (privateKey.startsWith('suiprivkey')) {
+      const decoded = decodeSuiPrivateKey(privateKey);
+      scheme = decoded.schema as SignerKeyScheme;
+      secretKey = decoded.secretKey;
+    } else if (/^(0x)?[0-9a-fA-F]{64}$/.test(privateKey)) {
+      secretKey = Uint8Array.from(Buffer.from(privateKey.replace('0x', ''), 'hex'));
+    } else {
+      secretKey = fromB64(privateKey);
+    }
+
+    switch (scheme) {
+      case 'ED25519':
+        return new KeypairSigner(Ed25519Keypair.fromSecretKey(secretKey));
+      case 'Secp256k1':
+        return new KeypairSigner(Secp256k1Keypair.fromSecretKey(secretKey));
+      case 'Secp256r1':
+        return new KeypairSigner(Secp256r1Keypair.fromSecretKey(secretKey));
+      default:
+        throw new Error(`Unsupported signature scheme: ${scheme}`);
+    }
+  }
+
+  async signTransaction(txBytes: Uint8Array): Promise<SignedBytes> {
+    return this.keypair.signTransactionBlock(txBytes);
+  }
+
+  async signPersonalMessage(message: Uint8Array): Promise<SignedBytes> {
+    return this.keypair.signPersonalMessage(message);
+  }
+}
+
+/**
+ * Options for the remote signer
+ */
+export interface RemoteSignerOptions {
+  /** Base URL of the signing service */
+  url: string;
+  /** Sui address of the remote key */
+  address: string;
+  /** Extra request headers (e.g. authorization) */
+  headers?: Record<string, string>;
+  /** Request timeout in ms (default: 30 seconds) */
+  timeoutMs?: number;
+}
+
+/**
+ * Signer that asks an HTTP signing service (KMS proxy, wallet backend) for signatures
+ *
+ * - `POST {url}/sign-transaction` with `{ address, bytes }` (base64 transaction bytes)
+ * - `POST {url}/sign-personal-message` with `{ address, message }` (base64 message)
+ *
+ * Both answer `{ signature }`, a serialized Sui signature. Signatures are verified
+ * against `address` before use, so a misconfigured service fails loudly.
+ */
+export class RemoteSigner implements Signer {
+  public readonly address: string;
+
+  constructor(private readonly options: RemoteSignerOptions) {
+    this.address = normalizeSuiAddress(options.address);
+  }
+
+  async signTransaction(txBytes: Uint8Array): Promise<SignedBytes> {
+    const signature = await this.request('sign-transaction', { bytes: toB64(txBytes) });
+    try {
+      const publicKey = await verifyTransactionSignature(txBytes, signature);
+      if (!publicKey.verifyAddress(this.address)) {
+        throw new Error('signer mismatch');
+      }
+    } catch {
+      throw new Error(`Remote signer returned a transaction signature not valid for ${this.address}`);
+    }
+    return { bytes: toB64(txBytes), signature };
+  }
+
+  async signPersonalMessage(message: Uint8Array): Promise<SignedBytes> {
+    const signature = await this.request('sign-personal-message', { message: toB64(message) });
+    try {
+      const publicKey = await verifyPersonalMessageSignature(message, signature);
+      if (!publicKey.verifyAddress(this.address)) {
+        throw new Error('signer mismatch');
+      }
+    } catch {
+      throw new Error(`Remote signer returned a message signature not valid for ${this.address}`);
+    }
+    return { bytes: toB64(message), signature };
+  }
+
+  private async request(endpoint: string, body: Record<string, string>): Promise<string> {
+    const response = await fetch(`${this.options.url.replace(/\/$/, '')}/${endpoint}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...this.options.headers },
+      body: JSON.stringify({ address: this.address, ...body }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 30000),
+    });
+    if (!response.ok) {
+      throw new Error(`Remote signer returned ${response.status} for ${endpoint}`);
+    }
+
+    const result = (await response.json()) as { signature?: unknown };
+    if (typeof result.signature !== 'string' || result.signature.length === 0) {
+      throw new Error(`Remote signer returned no signature for ${endpoint}`);
+    }
+    return result.signature;
+  }
+}
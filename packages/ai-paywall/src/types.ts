@@ -1,22 +1,70 @@
 // TypeScript types and interfaces
 
 import { Request, Response, NextFunction } from 'express';
+import { SuiClient, SuiTransport } from '@mysten/sui.js/client';
+import { SuiClient as SealSuiClient } from '@mysten/sui/client';
+import { ReplayGuardOptions } from './utils/replay';
+import { ConsumptionResult } from './utils/consumption';
+import { PurchaseSettlement } from './utils/settlement';
+import { PaywallCache, PaywallCacheOptions } from './utils/cache';
+import { NetworkOption } from './config/networks';
+import { LoggerLike, LogLevel, PaywallLogger } from './utils/logger';
+import { X402PaymentRequirements } from './utils/x402';
+import { Keypair } from '@mysten/sui.js/cryptography';
+import { SpendingPolicy, SpendingPolicyOptions } from './utils/spending';
+import { PassStore } from './utils/passes';
+import { Signer } from './signer';
+
+/**
+ * RPC injection options shared by the middleware and PaywallClient
+ *
+ * Lets you share connection pools, route through your own RPC gateway
+ * (e.g. a SuiHTTPTransport with auth headers) or plug in a local fake for tests.
+ * When nothing is provided, clients are built from the configured RPC URL.
+ */
+export interface SuiClientInjection {
+  /** Existing @mysten/sui.js client used for all RPC calls */
+  suiClient?: SuiClient;
+  /** Existing @mysten/sui client used by Seal and zkLogin verification */
+  sealSuiClient?: SealSuiClient;
+  /** Custom JSON-RPC transport used to build whichever clients are not provided */
+  transport?: SuiTransport;
+}
 
 /**
  * Options for configuring the paywall middleware
- * Contract details are baked into the package
+ * Contract details come from the network profile (default: baked-in testnet)
  * User only needs to provide: price, receiver (wallet address), domain
  * 
  * The middleware will automatically query the registry on-chain to find ResourceEntry
  * by domain and resource. Providing resourceEntryId is optional but can speed up lookups.
  */
-export interface PaywallOptions {
-  /** Price in SUI (e.g., "0.1" for 0.1 SUI) */
-  price: string;
-  /** Receiver wallet address - where payments go */
-  receiver: string;
+export interface PaywallOptions extends SuiClientInjection {
+  /**
+   * Price in SUI (e.g., "0.1" for 0.1 SUI)
+   * Required unless `routes` is set; with routes, it prices paths no route matches
+   */
+  price?: string;
+  /**
+   * Receiver wallet address - where payments go
+   * Required unless priceSource is 'registry'
+   */
+  receiver?: string;
   /** Domain name (e.g., "www.example.com") - must match registry registration */
   domain: string;
+  /**
+   * Where the challenge price comes from (default: 'options')
+   * - 'options': price / routes and receiver from these options
+   * - 'registry': the ResourceEntry's price (MIST), receiver, max_uses and validity_duration;
+   *   local price and receiver are only used for unregistered resources
+   */
+  priceSource?: 'options' | 'registry';
+  /**
+   * Network profile name ('testnet' | 'mainnet' | 'devnet') or your own deployment
+   * ({ packageId, registryId, passCounterId, treasuryId, rpcUrl, sealKeyServers, walrusAggregators })
+   * Default: 'testnet' with the baked-in contract
+   */
+  network?: NetworkOption;
   /** 
    * Optional: ResourceEntry object ID from registry (optimization cache)
    * If not provided, middleware will query registry on-chain by domain/resource
@@ -24,6 +72,127 @@ export interface PaywallOptions {
   resourceEntryId?: string;
   /** Mock content to serve after verification (optional, for testing) */
   mockContent?: string;
+  /**
+   * Route table: pattern -> per-route price and pass terms
+   * e.g. { '/datasets/:id': { price: '0.05', maxUses: 5 }, '/reports/**': { price: '0.2' } }
+   * Paths matching no route are priced with `price`, or passed through unprotected if it is not set
+   */
+  routes?: Record<string, PaywallRouteConfig>;
+  /**
+   * Replay protection settings (enabled by default with an in-memory store)
+   * Pass a shared store (Redis, SQL) when running several instances, or false to disable
+   * (settled X-PAYMENT purchases are still recorded, in memory, when disabled)
+   */
+  replayProtection?: ReplayGuardOptions | false;
+  /**
+   * Who consumes a pass use per served response (default: 'client')
+   * - 'client': the client calls consume_pass itself after reading the content
+   * - 'relay': the client sends a pre-signed consume_pass transaction
+   *   (x-consume-tx / x-consume-sig) and the middleware submits it, serving
+   *   the response only once the chain confirms the use was consumed
+   */
+  consumption?: 'client' | 'relay';
+  /**
+   * x402 compatibility (default: true)
+   * 402 responses carry an `accepts` list with the Sui "exact" scheme, and a base64
+   * X-PAYMENT header (pass proof or signed purchase_pass transaction) is accepted
+   * alongside the x-pass-id / x-sig headers. Set to false for the legacy format only
+   */
+  x402?: boolean;
+  /**
+   * URL of a facilitator service (see Facilitator) that verifies and settles payments
+   * When set, the middleware makes no Sui RPC calls of its own: pass checks, purchase
+   * settlement, relay consumption and the registry lookup all happen at the facilitator
+   */
+  facilitatorUrl?: string;
+  /**
+   * Headers sent with every facilitator call, e.g. { authorization: 'Bearer ...' }
+   * for a facilitator that checks callers with its `authorize` hook
+   */
+  facilitatorHeaders?: Record<string, string>;
+  /**
+   * Key that signs every 402 challenge so clients can detect tampering (recommended)
+   * The receiver wallet's keypair lets clients check the signer against the on-chain
+   * ResourceEntry receiver; a dedicated Ed25519 key (suiprivkey1..., base64 or hex)
+   * must be pinned by clients with `trustedChallengeSigners`
+   */
+  challengeSigningKey?: string | Keypair;
+  /** How long a signed challenge stays payable in ms (default: 5 minutes) */
+  challengeTtlMs?: number;
+  /**
+   * AccessPass / ResourceEntry lookup cache (enabled by default, in-memory)
+   * Pass a PaywallCache instance to keep a handle for invalidation, or false to disable
+   */
+  cache?: PaywallCacheOptions | PaywallCache | false;
+  /**
+   * Logger: a pino/winston-compatible instance, a PaywallLogger, or a console log level
+   * Default: console at 'info', 'silent' when NODE_ENV=production
+   */
+  logger?: LoggerLike | LogLevel | PaywallLogger;
+  /**
+   * Extra log field names to redact, or false to log secrets as-is (debugging only)
+   * Signatures, session keys and pre-signed transactions are redacted by default
+   */
+  redactLogFields?: string[] | false;
+}
+
+/**
+ * Price and pass terms for one route pattern
+ */
+export interface PaywallRouteConfig {
+  /** Price in SUI */
+  price: string;
+  /** Uses a pass bought for this route may carry (advertised in the challenge and enforced) */
+  maxUses?: number;
+  /** How long a pass bought for this route may stay valid in ms (advertised and enforced) */
+  validityMs?: number;
+  /** Mock content exposed to the route handler when the resource is not registered */
+  mockContent?: string;
+}
+
+/**
+ * Options for the PaywallClient SDK
+ */
+export interface PaywallClientOptions extends SuiClientInjection {
+  /**
+   * Sui bech32 format (suiprivkey1..., Ed25519 / Secp256k1 / Secp256r1), or an
+   * Ed25519 key as base64 or hex string. Required unless `signer` is set
+   */
+  privateKey?: string;
+  /** Signs transactions and messages instead of a local private key (KMS, remote signer) */
+  signer?: Signer;
+  /** Network profile name or your own deployment (default: 'testnet') */
+  network?: NetworkOption;
+  /** Sui RPC URL (default: from the network profile) */
+  rpcUrl?: string;
+  /**
+   * Refuse to pay for unsigned challenges or ones no trusted key vouches for (default: true)
+   * Set to false for servers without a `challengeSigningKey`; registered resources
+   * still have their challenge receiver and price checked against the registry
+   */
+  requireSignedChallenges?: boolean;
+  /** Challenge signer addresses trusted for any resource (servers signing with their own key) */
+  trustedChallengeSigners?: string[];
+  /**
+   * Limits on what access() and payForAccess() pay on their own: per-request, per-domain
+   * and daily maximums, domain/receiver lists, an approval hook and a spend ledger
+   * Refused payments throw SpendLimitExceededError. Default: no limits
+   */
+  spendingPolicy?: SpendingPolicyOptions | SpendingPolicy;
+  /**
+   * Where bought passes are recorded (default: in-memory)
+   * Use FilePassStore or SqlitePassStore to keep passes across restarts
+   */
+  passStore?: PassStore;
+  /** How often stored passes are re-read from the chain in ms (default: 5 minutes, 0 = on every use) */
+  passSyncIntervalMs?: number;
+  /**
+   * Logger: a pino/winston-compatible instance, a PaywallLogger, or a console log level
+   * Default: console at 'info', 'silent' when NODE_ENV=production. Signatures are never logged
+   */
+  logger?: LoggerLike | LogLevel | PaywallLogger;
+  /** Extra log field names to redact, or false to log secrets as-is (debugging only) */
+  redactLogFields?: string[] | false;
 }
 
 /**
@@ -41,6 +210,24 @@ export interface PaymentChallenge {
   domain: string;
   resource: string;
   nonce: string;
+  /** 'relay' if the server expects a pre-signed consume_pass transaction */
+  consumptionMode?: 'client' | 'relay';
+  /** Maximum uses a pass may be bought with (route table only) */
+  maxUses?: number;
+  /** Maximum validity a pass may be bought with in ms (route table only) */
+  validityMs?: number;
+  /** x402 protocol version (x402 mode only) */
+  x402Version?: number;
+  /** x402 payment requirements (x402 mode only) */
+  accepts?: X402PaymentRequirements[];
+  /** Why the previous X-PAYMENT header was rejected */
+  error?: string;
+  /** When the challenge stops being payable (ms since epoch) */
+  expiresAt?: number;
+  /** Address of the key that signed the challenge */
+  signer?: string;
+  /** Personal-message signature over createChallengeMessage(challenge) */
+  signature?: string;
 }
 
 /**
@@ -67,31 +254,115 @@ export interface SignedHeaders {
   'x-ts': string;
 }
 
+/**
+ * ResourceEntry details exposed to route handlers
+ */
+export interface PaywallResourceEntry {
+  domain: string;
+  resource: string;
+  walrus_cid: string;
+  seal_policy: string;
+  price: string;
+  receiver: string;
+  max_uses: number;
+  validity_duration: number;
+  owner: string;
+  created_at: number;
+  active: boolean;
+  resource_id: string;
+}
+
+/**
+ * Verified access details attached to the request
+ * (req.paywall in Express/Fastify, ctx.state.paywall in Koa, c.get('paywall') in Hono)
+ */
+export interface PaywallContext {
+  accessPass?: AccessPass;
+  verified?: boolean;
+  encryptedBlob?: ArrayBuffer;
+  /** Confirmed consume_pass transaction (relay mode only) */
+  consumption?: ConsumptionResult;
+  /** Purchase settled by this request (signed purchase_pass transaction in X-PAYMENT) */
+  settlement?: PurchaseSettlement;
+  resourceEntry?: PaywallResourceEntry;
+  /** Matched route (route table only) */
+  route?: { pattern: string; params: Record<string, string> };
+  /** Mock content, set when the resource is not registered */
+  mockContent?: string;
+}
+
 /**
  * Express request with paywall headers
  */
 export interface PaywallRequest extends Request {
-  paywall?: {
-    accessPass?: AccessPass;
-    verified?: boolean;
-    encryptedBlob?: ArrayBuffer;
-    resourceEntry?: {
-      domain: string;
-      resource: string;
-      walrus_cid: string;
-      seal_policy: string;
-      price: string;
-      receiver: string;
-      max_uses: number;
-      validity_duration: number;
-      owner: string;
-      created_at: number;
-      active: boolean;
-      resource_id: string;
-    };
-  };
+  paywall?: PaywallContext;
 }
 
+/**
+ * Request headers as a plain object (Node) or a Fetch API Headers instance
+ */
+export type PaywallHeaders =
+  | Record<string, string | string[] | undefined>
+  | { get(name: string): string | null };
+
+/**
+ * Framework-agnostic request evaluated by PaywallCore
+ */
+export interface PaywallCoreRequest {
+  method: string;
+  /** Full request path, including any mount prefix (a query string is only used for signing) */
+  path: string;
+  headers: PaywallHeaders;
+  /** Query string, if not part of `path` */
+  query?: string;
+  /**
+   * Raw request body, when the framework has it
+   * Required for signed requests with a body: without it they are denied (BODY_UNAVAILABLE)
+   */
+  body?: string | Uint8Array;
+}
+
+/**
+ * JSON error body of a denied request
+ */
+export interface PaywallErrorBody {
+  error: string;
+  message: string;
+  /** Failure reason code (signature errors only) */
+  reason?: string;
+}
+
+/**
+ * Outcome of PaywallCore.evaluate()
+ *
+ * - challenge: respond 402 with the payment challenge
+ * - deny: respond with status and error body
+ * - allow: access verified. If decryptedData is set, respond with it directly;
+ *   otherwise attach `paywall` to the request and hand over to the route handler
+ *
+ * `headers` must be set on the response in every case.
+ */
+export type PaywallDecision =
+  | {
+      type: 'challenge';
+      status: 402;
+      headers: Record<string, string>;
+      body: PaymentChallenge;
+    }
+  | {
+      type: 'deny';
+      status: number;
+      headers: Record<string, string>;
+      body: PaywallErrorBody;
+    }
+  | {
+      type: 'allow';
+      headers: Record<string, string>;
+      paywall: PaywallContext;
+      /** Content decrypted server-side (x-session-key was sent) */
+      decryptedData?: Uint8Array;
+    };
+
 /**
  * Express middleware type
  */
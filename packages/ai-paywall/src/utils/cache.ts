@@ -0,0 +1,280 @@
+// Cache for AccessPass and ResourceEntry lookups
+
+import { AccessPass } from '../types';
+import { PassPurchase, ResourceEntry } from './sui';
+
+/**
+ * Default time-to-live for found objects (30 seconds)
+ */
+const DEFAULT_TTL_MS = 30 * 1000;
+
+/**
+ * Default time-to-live for "not found" results (10 seconds)
+ */
+const DEFAULT_NEGATIVE_TTL_MS = 10 * 1000;
+
+/**
+ * Default capacity of the in-memory backend
+ */
+const DEFAULT_MAX_ENTRIES = 1_000;
+
+/**
+ * Cached lookup result (value is null for a cached "not found")
+ */
+export interface CacheRecord<T> {
+  value: T | null;
+}
+
+/**
+ * Storage backend for the paywall cache
+ *
+ * Values are plain JSON-serializable objects, so a Redis or memcached
+ * backend can store them with JSON.stringify / JSON.parse.
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheRecord<T> | undefined>;
+  set<T>(key: string, record: CacheRecord<T>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory LRU cache backend (single process only)
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, { record: CacheRecord<unknown>; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<CacheRecord<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.record as CacheRecord<T>;
+  }
+
+  async set<T>(key: string, record: CacheRecord<T>, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { record, expiresAt: Date.now() + ttlMs });
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Options for the paywall cache
+ */
+export interface PaywallCacheOptions {
+  /** Backend storage (default: in-memory LRU) */
+  backend?: CacheBackend;
+  /** Time-to-live for found objects in ms (default: 30 seconds) */
+  ttlMs?: number;
+  /** Time-to-live for "not found" results in ms, 0 disables negative caching (default: 10 seconds) */
+  negativeTtlMs?: number;
+  /** Capacity of the default in-memory backend (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Cache for AccessPass (keyed by pass ID) and ResourceEntry (keyed by domain + resource)
+ *
+ * Cached passes are returned as-is: callers must still check expiry and
+ * remaining uses (the middleware does this on every request).
+ */
+export class PaywallCache {
+  private readonly backend: CacheBackend;
+  private readonly ttlMs: number;
+  private readonly negativeTtlMs: number;
+
+  constructor(options: PaywallCacheOptions = {}) {
+    this.backend = options.backend || new MemoryCacheBackend(options.maxEntries);
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.negativeTtlMs = options.negativeTtlMs ?? DEFAULT_NEGATIVE_TTL_MS;
+  }
+
+  /**
+   * Get an AccessPass, loading it on a cache miss
+   */
+  async getAccessPass(
+    passId: string,
+    loader: () => Promise<AccessPass | null>
+  ): Promise<AccessPass | null> {
+    const key = passKey(passId);
+    const cached = await this.backend.get<AccessPass>(key);
+    if (cached) {
+      return cached.value;
+    }
+
+    const pass = await loader();
+    await this.storeAccessPass(passId, pass);
+    return pass;
+  }
+
+  /**
+   * Get a ResourceEntry, loading it on a cache miss
+   * A loader that throws stores nothing, so RPC outages are retried on the next request
+   */
+  async getResourceEntry(
+    domain: string,
+    resource: string,
+    loader: () => Promise<ResourceEntry | null>
+  ): Promise<ResourceEntry | null> {
+    const key = resourceKey(domain, resource);
+    const cached = await this.backend.get<ResourceEntry>(key);
+    if (cached) {
+      return cached.value;
+    }
+
+    const entry = await loader();
+    await this.storeResourceEntry(domain, resource, entry);
+    return entry;
+  }
+
+  /**
+   * Get the purchase details of an AccessPass, loading them on a cache miss
+   * (cached like AccessPasses, "not found" results use the short TTL)
+   */
+  async getPassPurchase(
+    passId: string,
+    loader: () => Promise<PassPurchase | null>
+  ): Promise<PassPurchase | null> {
+    const key = purchaseKey(passId);
+    const cached = await this.backend.get<PassPurchase>(key);
+    if (cached) {
+      return cached.value;
+    }
+
+    const purchase = await loader();
+    if (purchase) {
+      await this.backend.set(key, { value: purchase }, this.ttlMs);
+    } else if (this.negativeTtlMs > 0) {
+      await this.backend.set(key, { value: null }, this.negativeTtlMs);
+    }
+    return purchase;
+  }
+
+  /**
+   * Read a cached AccessPass without loading it
+   * Returns undefined on a miss, null for a cached "not found"
+   */
+  async peekAccessPass(passId: string): Promise<AccessPass | null | undefined> {
+    return (await this.backend.get<AccessPass>(passKey(passId)))?.value;
+  }
+
+  /**
+   * Read a cached ResourceEntry without loading it
+   * Returns undefined on a miss, null for a cached "not found"
+   */
+  async peekResourceEntry(domain: string, resource: string): Promise<ResourceEntry | null | undefined> {
+    return (await this.backend.get<ResourceEntry>(resourceKey(domain, resource)))?.value;
+  }
+
+  /**
+   * Find the object ID of a cached AccessPass by its on-chain pass number
+   * (events such as PassConsumed only carry the pass number)
+   */
+  async findPassId(passNumber: string | number): Promise<string | undefined> {
+    return (await this.backend.get<string>(passNumberKey(passNumber)))?.value ?? undefined;
+  }
+
+  /**
+   * Store a ResourceEntry (or a "not found" result when entry is null)
+   */
+  async storeResourceEntry(domain: string, resource: string, entry: ResourceEntry | null): Promise<void> {
+    const key = resourceKey(domain, resource);
+    if (entry) {
+      await this.backend.set(key, { value: entry }, this.ttlMs);
+    } else if (this.negativeTtlMs > 0) {
+      await this.backend.set(key, { value: null }, this.negativeTtlMs);
+    } else {
+      await this.backend.delete(key);
+    }
+  }
+
+  /**
+   * Store an AccessPass (or a "not found" result when pass is null)
+   */
+  async storeAccessPass(passId: string, pass: AccessPass | null): Promise<void> {
+    const key = passKey(passId);
+
+    if (!pass) {
+      if (this.negativeTtlMs > 0) {
+        await this.backend.set(key, { value: null }, this.negativeTtlMs);
+      } else {
+        await this.backend.delete(key);
+      }
+      return;
+    }
+
+    // Never keep a pass cached past its own expiry
+    let ttlMs = this.ttlMs;
+    if (pass.expiry > 0) {
+      ttlMs = Math.min(ttlMs, pass.expiry - Date.now());
+    }
+    if (ttlMs > 0) {
+      await this.backend.set(key, { value: pass }, ttlMs);
+      await this.backend.set(passNumberKey(pass.pass_id), { value: passId }, ttlMs);
+    } else {
+      await this.backend.delete(key);
+    }
+  }
+
+  /**
+   * Evict a cached AccessPass
+   */
+  async invalidatePass(passId: string): Promise<void> {
+    await this.backend.delete(passKey(passId));
+  }
+
+  /**
+   * Evict a cached ResourceEntry
+   */
+  async invalidateResource(domain: string, resource: string): Promise<void> {
+    await this.backend.delete(resourceKey(domain, resource));
+  }
+
+  /**
+   * Evict everything
+   */
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+}
+
+function passKey(passId: string): string {
+  return `pass:${passId.toLowerCase()}`;
+}
+
+function purchaseKey(passId: string): string {
+  return `purchase:${passId.toLowerCase()}`;
+}
+
+function passNumberKey(passNumber: string | number): string {
+  return `pass-number:${passNumber}`;
+}
+
+function resourceKey(domain: string, resource: string): string {
+  return `resource:${domain}:${resource}`;
+}
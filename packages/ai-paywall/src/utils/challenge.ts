@@ -0,0 +1,122 @@
+// Signed payment challenges
+// The server signs every 402 body so clients can detect challenges that were
+// fabricated or altered in transit (e.g. a swapped receiver) before paying
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { Keypair, decodeSuiPrivateKey } from '@mysten/sui.js/cryptography';
+import { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';
+import { fromB64 } from '@mysten/sui.js/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { PaymentChallenge } from '../types';
+import { ChallengeVerificationError } from '../errors';
+
+/**
+ * How long a signed challenge may be paid for (5 minutes)
+ */
+export const DEFAULT_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Build the challenge signing key
+ * Accepts a keypair (e.g. the receiver wallet) or an Ed25519 private key in
+ * Sui bech32 (suiprivkey1...), base64 or hex format
+ */
+export function loadChallengeKeypair(key: string | Keypair): Keypair {
+  if (typeof key !== 'string') {
+    return key;
+  }
+
+  try {
+    if (key.startsWith('suiprivkey')) {
+      const { schema, secretKey } = decodeSuiPrivateKey(key);
+      if (schema !== 'ED25519') {
+        throw new Error(`Unsupported signature scheme: ${schema}. Pass a Keypair instance instead.`);
+      }
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    }
+    if (/^(0x)?[0-9a-fA-F]{64}$/.test(key)) {
+      return Ed25519Keypair.fromSecretKey(Uint8Array.from(Buffer.from(key.replace('0x', ''), 'hex')));
+    }
+    return Ed25519Keypair.fromSecretKey(fromB64(key));
+  } catch (error) {
+    throw new Error(
+      `Invalid challengeSigningKey: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Canonical JSON with sorted keys (nested objects and arrays included)
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Message the server signs: a SHA-256 digest of every challenge field except the
+ * signature itself (digested because personal messages are limited to 1 KB)
+ */
+export function createChallengeMessage(challenge: PaymentChallenge): string {
+  const { signature: _signature, ...fields } = challenge;
+  const digest = bytesToHex(sha256(utf8ToBytes(JSON.stringify(canonicalize(fields)))));
+  return `ai-paywall challenge:${digest}`;
+}
+
+/**
+ * Sign a challenge in place (sets `signer` and `signature`)
+ * `expiresAt` must be set before signing
+ */
+export async function signChallenge(
+  challenge: PaymentChallenge,
+  keypair: Keypair
+): Promise<PaymentChallenge> {
+  challenge.signer = keypair.toSuiAddress();
+  const message = new TextEncoder().encode(createChallengeMessage(challenge));
+  const { signature } = await keypair.signPersonalMessage(message);
+  challenge.signature = signature;
+  return challenge;
+}
+
+/**
+ * Check a challenge's signature and expiry
+ * @returns The normalized signer address
+ * @throws ChallengeVerificationError if unsigned, expired or not signed by `signer`
+ */
+export async function verifyChallengeSignature(challenge: PaymentChallenge): Promise<string> {
+  if (!challenge.signature || !challenge.signer) {
+    throw new ChallengeVerificationError('Payment challenge is not signed', 'UNSIGNED');
+  }
+
+  if (typeof challenge.expiresAt !== 'number' || Date.now() >= challenge.expiresAt) {
+    throw new ChallengeVerificationError('Payment challenge has expired', 'EXPIRED');
+  }
+
+  const message = new TextEncoder().encode(createChallengeMessage(challenge));
+  let signer: string;
+  try {
+    signer = normalizeSuiAddress(challenge.signer);
+    const publicKey = await verifyPersonalMessageSignature(message, challenge.signature);
+    if (!publicKey.verifyAddress(signer)) {
+      throw new Error('signer mismatch');
+    }
+  } catch {
+    throw new ChallengeVerificationError(
+      'Payment challenge signature is not valid for its contents',
+      'INVALID_SIGNATURE'
+    );
+  }
+
+  return signer;
+}
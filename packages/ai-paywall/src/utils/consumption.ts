@@ -0,0 +1,124 @@
+// Server-side pass consumption
+// The client pre-signs a consume_pass transaction, the middleware submits it
+// and only serves the response once the chain confirms the use was consumed
+
+import { SuiClient } from '@mysten/sui.js/client';
+import { TransactionBlock } from '@mysten/sui.js/transactions';
+import { normalizeSuiAddress } from '@mysten/sui.js/utils';
+import { resolveSuiClient } from './sui';
+import { PassConsumptionError, ReplayDetectedError } from '../errors';
+
+/**
+ * Result of a confirmed consume_pass transaction
+ */
+export interface ConsumptionResult {
+  /** Transaction digest */
+  digest: string;
+  /** Remaining uses after consumption (from PassConsumed event) */
+  remainingAfter?: number;
+}
+
+/**
+ * Check that pre-signed transaction bytes contain exactly one
+ * `consume_pass(passId)` call for our package, sent by the pass owner
+ */
+export function validateConsumeTransaction(
+  txBytes: string,
+  expected: { packageId: string; passId: string; sender: string }
+): void {
+  let tx: TransactionBlock;
+  try {
+    tx = TransactionBlock.from(txBytes);
+  } catch {
+    throw new PassConsumptionError('Malformed consume_pass transaction');
+  }
+
+  const { sender, transactions, inputs } = tx.blockData;
+
+  if (!sender || normalizeSuiAddress(sender) !== normalizeSuiAddress(expected.sender)) {
+    throw new PassConsumptionError('consume_pass transaction must be sent by x-signer');
+  }
+
+  if (transactions.length !== 1 || transactions[0].kind !== 'MoveCall') {
+    throw new PassConsumptionError('Transaction must contain a single consume_pass call');
+  }
+
+  const call = transactions[0];
+  const [callPackage, callModule, callFunction] = call.target.split('::');
+  if (
+    normalizeSuiAddress(callPackage) !== normalizeSuiAddress(expected.packageId) ||
+    callModule !== 'paywall' ||
+    callFunction !== 'consume_pass'
+  ) {
+    throw new PassConsumptionError('Transaction does not call paywall::consume_pass');
+  }
+
+  // The only argument must be the AccessPass being used for this request
+  const passArg = call.arguments[0];
+  const input = passArg && passArg.kind === 'Input' ? (inputs[passArg.index]?.value as any) : undefined;
+  const objectId = input?.Object?.Shared?.objectId || input?.Object?.ImmOrOwned?.objectId;
+  if (call.arguments.length !== 1 || !objectId || normalizeSuiAddress(objectId) !== normalizeSuiAddress(expected.passId)) {
+    throw new PassConsumptionError('consume_pass transaction targets a different AccessPass');
+  }
+}
+
+/**
+ * Submit a pre-signed consume_pass transaction and wait for it to succeed
+ * Sui answers a resubmitted transaction with its original effects, so one that
+ * already ran is refused rather than counted as a new use
+ * @throws ReplayDetectedError if the transaction was executed before
+ */
+export async function submitConsumeTransaction(
+  txBytes: string,
+  signature: string,
+  expected: { packageId: string; passId: string; sender: string },
+  rpc?: SuiClient | string // Injected client or RPC URL
+): Promise<ConsumptionResult> {
+  validateConsumeTransaction(txBytes, expected);
+
+  const client = resolveSuiClient(rpc);
+
+  // A lookup failure is not proof of a new transaction, but the caller's
+  // consumption record still catches repeats it has seen
+  const digest = await TransactionBlock.from(txBytes).getDigest();
+  const executed = await client
+    .getTransactionBlock({ digest })
+    .then(() => true)
+    .catch(() => false);
+  if (executed) {
+    throw new ReplayDetectedError('consume_pass transaction was already executed');
+  }
+
+  let result;
+  try {
+    result = await client.executeTransactionBlock({
+      transactionBlock: txBytes,
+      signature,
+      requestType: 'WaitForLocalExecution',
+      options: {
+        showEffects: true,
+        showEvents: true,
+      },
+    });
+  } catch (error: any) {
+    throw new PassConsumptionError(
+      `Failed to submit consume_pass transaction: ${error.message || 'Unknown error'}`
+    );
+  }
+
+  if (result.effects?.status.status !== 'success') {
+    throw new PassConsumptionError(
+      `consume_pass transaction failed: ${result.effects?.status.error || 'Unknown error'}`
+    );
+  }
+
+  const consumedEvent = result.events?.find((event) => event.type.endsWith('::paywall::PassConsumed'));
+  const remainingAfter = consumedEvent
+    ? Number((consumedEvent.parsedJson as any)?.remaining_after)
+    : undefined;
+
+  return {
+    digest: result.digest,
+    remainingAfter,
+  };
+}
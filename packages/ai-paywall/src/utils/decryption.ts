@@ -2,6 +2,9 @@
 // Based on Seal examples decryption flow
 
 import { SealClient, SessionKey, NoAccessError, EncryptedObject } from '@mysten/seal';
+import { NETWORK_PROFILES } from '../config/networks';
+import { fetchEncryptedBlob } from './walrus';
+import { PaywallLogger, SILENT_LOGGER } from './logger';
 // Note: Seal requires @mysten/sui (not @mysten/sui.js) for compatibility
 // We'll try to use @mysten/sui if available, otherwise fall back to @mysten/sui.js
 let SuiClientModule: any;
@@ -24,11 +27,8 @@ const { SuiClient, getFullnodeUrl } = SuiClientModule;
 const { Transaction, TransactionBlock } = TransactionModule;
 const { fromHEX, fromHex } = UtilsModule;
 
-// Seal key server object IDs for testnet (from Seal examples)
-const DEFAULT_SERVER_OBJECT_IDS = [
-  '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75',
-  '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8',
-];
+// Seal key servers and Walrus aggregators default to the testnet profile
+const DEFAULT_SERVER_OBJECT_IDS = NETWORK_PROFILES.testnet.sealKeyServers || [];
 
 export interface DecryptionOptions {
   packageId: string;
@@ -38,10 +38,14 @@ export interface DecryptionOptions {
   walrusCid: string;
   sealPolicyId: string; // Hex string policy ID
   rpcUrl?: string;
+  suiClient?: any; // Optional: injected @mysten/sui client (takes precedence over rpcUrl)
   network?: 'testnet' | 'mainnet' | 'devnet';
+  keyServers?: string[]; // Seal key server object IDs (default: testnet)
+  walrusAggregators?: string[]; // Walrus aggregator URLs (default: testnet)
   threshold?: number;
   sessionKeySignature?: string; // Optional: if provided, use existing session key
   userAddress?: string; // Required if creating new session key
+  logger?: PaywallLogger; // Progress and aggregator failures (default: silent)
 }
 
 export interface DecryptionResult {
@@ -52,19 +56,11 @@ export interface DecryptionResult {
 /**
  * Create Seal client
  * Note: SealClient requires a SuiClient that's compatible with its version
- * We'll create the client inside the SealClient constructor
  */
-function createSealClient(
-  packageId: string,
-  rpcUrl: string,
-  threshold: number = 2
-): SealClient {
-  // Create SuiClient - Seal will use its own compatible version
-  const suiClient = new SuiClient({ url: rpcUrl });
-
+function createSealClient(suiClient: any, keyServers: string[] = DEFAULT_SERVER_OBJECT_IDS): SealClient {
   return new SealClient({
     suiClient: suiClient as any, // Type assertion to handle version compatibility
-    serverConfigs: DEFAULT_SERVER_OBJECT_IDS.map((id) => ({
+    serverConfigs: keyServers.map((id) => ({
       objectId: id,
       weight: 1,
     })),
@@ -80,42 +76,6 @@ function normalizeHexString(hex: string): string {
   return cleaned.toLowerCase();
 }
 
-/**
- * Fetch encrypted blob from Walrus aggregator
- */
-async function fetchFromWalrus(walrusCid: string): Promise<ArrayBuffer> {
-  // Walrus aggregator URLs (from Seal examples)
-  const aggregators = [
-    'https://aggregator.walrus-testnet.walrus.space',
-    'https://wal-aggregator-testnet.staketab.org',
-    'https://walrus-testnet-aggregator.redundex.com',
-    'https://walrus-testnet-aggregator.nodes.guru',
-    'https://aggregator.walrus.banansen.dev',
-    'https://walrus-testnet-aggregator.everstake.one',
-  ];
-
-  // Try each aggregator until one succeeds
-  for (const aggregator of aggregators) {
-    try {
-      const url = `${aggregator}/v1/blobs/${walrusCid}`;
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10000);
-
-      const response = await fetch(url, { signal: controller.signal });
-      clearTimeout(timeout);
-
-      if (response.ok) {
-        return await response.arrayBuffer();
-      }
-    } catch (err) {
-      console.warn(`Failed to fetch from ${aggregator}:`, err);
-      continue;
-    }
-  }
-
-  throw new Error(`Failed to fetch encrypted blob from Walrus (CID: ${walrusCid})`);
-}
-
 /**
  * Construct Move call for seal_approve
  */
@@ -170,23 +130,24 @@ export async function decryptContent(
     rpcUrl = getFullnodeUrl('testnet'),
     threshold = 2,
     exportedSessionKey,
+    logger: log = SILENT_LOGGER,
   } = options;
 
   // Step 1: Fetch encrypted blob from Walrus
-  console.log(`[Decryption] Fetching encrypted blob from Walrus: ${walrusCid}`);
-  const encryptedBlob = await fetchFromWalrus(walrusCid);
-  console.log(`[Decryption] Fetched ${encryptedBlob.byteLength} bytes from Walrus`);
+  log.debug('Fetching encrypted blob from Walrus', { walrusCid });
+  const encryptedBlob = await fetchEncryptedBlob(walrusCid, options.walrusAggregators, log);
+  log.debug('Fetched encrypted blob from Walrus', { bytes: encryptedBlob.byteLength });
 
   // Step 2: Parse encrypted object to get the full ID
   const encryptedData = new Uint8Array(encryptedBlob);
   const encryptedObject = EncryptedObject.parse(encryptedData);
   const fullId = encryptedObject.id;
-  console.log(`[Decryption] Encrypted object ID: ${fullId}`);
+  log.debug('Parsed encrypted object', { encryptedObjectId: fullId });
 
   // Step 3: Create Seal client and Sui client
-  // Use the Sui client from @mysten/sui.js which is compatible with Seal
-  const suiClient = new SuiClient({ url: rpcUrl });
-  const sealClient = createSealClient(packageId, rpcUrl, threshold);
+  // Use the injected client if provided, otherwise one compatible with Seal
+  const suiClient = options.suiClient || new SuiClient({ url: rpcUrl });
+  const sealClient = createSealClient(suiClient, options.keyServers);
 
   // Step 4: Import SessionKey if provided, otherwise return encrypted blob
   if (!exportedSessionKey) {
@@ -199,7 +160,7 @@ export async function decryptContent(
   // Import the SessionKey
   // SessionKey.import expects a compatible SuiClient
   const sessionKey = await SessionKey.import(exportedSessionKey, suiClient as any);
-  console.log(`[Decryption] SessionKey imported for address: ${sessionKey.getAddress()}`);
+  log.debug('SessionKey imported', { address: sessionKey.getAddress() });
 
   // Step 5: Convert policy ID hex string to bytes
   const normalizedPolicyId = normalizeHexString(sealPolicyId);
@@ -217,7 +178,7 @@ export async function decryptContent(
   );
 
   // Step 7: Fetch decryption keys from Seal servers
-  console.log(`[Decryption] Fetching decryption keys from Seal servers...`);
+  log.debug('Fetching decryption keys from Seal servers');
   // Use Transaction if available (newer API), otherwise TransactionBlock
   const TxClass = Transaction || TransactionBlock;
   const tx = new TxClass();
@@ -231,7 +192,7 @@ export async function decryptContent(
       sessionKey,
       threshold,
     });
-    console.log(`[Decryption] Keys fetched successfully`);
+    log.debug('Decryption keys fetched');
   } catch (err) {
     if (err instanceof NoAccessError) {
       throw new Error('No access to decryption keys - AccessPass may be invalid or expired');
@@ -240,14 +201,14 @@ export async function decryptContent(
   }
 
   // Step 8: Decrypt the content
-  console.log(`[Decryption] Decrypting content...`);
+  log.debug('Decrypting content');
   try {
     const decryptedData = await sealClient.decrypt({
       data: encryptedData,
       sessionKey,
       txBytes,
     });
-    console.log(`[Decryption] Content decrypted successfully (${decryptedData.length} bytes)`);
+    log.debug('Content decrypted', { bytes: decryptedData.length });
 
     return {
       decryptedData,
@@ -259,12 +220,3 @@ export async function decryptContent(
     throw new Error(`Failed to decrypt content: ${err instanceof Error ? err.message : String(err)}`);
   }
 }
-
-/**
- * Fetch encrypted blob from Walrus (without decryption)
- * This can be used when client-side decryption is preferred
- */
-export async function fetchEncryptedBlob(walrusCid: string): Promise<ArrayBuffer> {
-  return await fetchFromWalrus(walrusCid);
-}
-
@@ -0,0 +1,20 @@
+// Header access shared by the middleware and the HTTP client integrations
+
+import { PaywallHeaders } from '../types';
+
+/**
+ * Read a header from a plain header object or a Fetch API Headers instance
+ */
+export function getHeader(headers: PaywallHeaders, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers.get as (name: string) => string | null)(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  let value = record[name];
+  if (value === undefined) {
+    const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+    value = key ? record[key] : undefined;
+  }
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,169 @@
+// Structured logging for the paywall middleware
+
+/**
+ * Log levels, lowest to highest ('silent' disables logging)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured fields attached to a log line
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimal logger interface
+ *
+ * pino loggers are called as (fields, message). winston loggers are detected
+ * by their `transports` array and called as (message, fields).
+ */
+export interface LoggerLike {
+  debug(...args: any[]): unknown;
+  info(...args: any[]): unknown;
+  warn(...args: any[]): unknown;
+  error(...args: any[]): unknown;
+}
+
+/**
+ * Options for the paywall logger
+ */
+export interface PaywallLoggerOptions {
+  /**
+   * Extra field names to redact, or false to log secrets as-is (debugging only)
+   * Signatures, session keys, pre-signed transactions and private keys are always
+   * redacted unless this is false
+   */
+  redact?: string[] | false;
+  /** Fields added to every line */
+  bindings?: LogFields;
+}
+
+/**
+ * Field names (case-insensitive) redacted by default
+ */
+const DEFAULT_REDACTED_FIELDS = [
+  'signature',
+  'x-sig',
+  'sessionKey',
+  'x-session-key',
+  'consumeTx',
+  'consumeSig',
+  'x-consume-tx',
+  'x-consume-sig',
+  'x-payment',
+  'authorization',
+  'privateKey',
+];
+
+const REDACTED = '[REDACTED]';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+/**
+ * Default level: silent in production, info otherwise
+ */
+export function defaultLogLevel(): LogLevel {
+  return process.env.NODE_ENV === 'production' ? 'silent' : 'info';
+}
+
+/**
+ * Logger used by the middleware
+ *
+ * Wraps a pino/winston-compatible logger, or logs to the console at the given level.
+ * Every line carries the bound fields (e.g. requestId, domain, resource) with
+ * secret fields redacted.
+ */
+export class PaywallLogger {
+  private readonly logger: LoggerLike | LogLevel;
+  private readonly options: PaywallLoggerOptions;
+  private readonly redactKeys: Set<string> | null;
+
+  constructor(logger: LoggerLike | LogLevel = defaultLogLevel(), options: PaywallLoggerOptions = {}) {
+    this.logger = logger;
+    this.options = options;
+    this.redactKeys =
+      options.redact === false
+        ? null
+        : new Set(
+            [...DEFAULT_REDACTED_FIELDS, ...(options.redact || [])].map((key) => key.toLowerCase())
+          );
+  }
+
+  /**
+   * Logger with extra fields bound to every line
+   */
+  child(bindings: LogFields): PaywallLogger {
+    return new PaywallLogger(this.logger, {
+      ...this.options,
+      bindings: { ...this.options.bindings, ...bindings },
+    });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields?: LogFields): void {
+    const payload = this.redact({ ...this.options.bindings, ...fields }) as LogFields;
+
+    if (typeof this.logger === 'string') {
+      if (LEVEL_ORDER[level] < LEVEL_ORDER[this.logger]) {
+        return;
+      }
+      const line = `[Paywall] ${message}`;
+      const write = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+      Object.keys(payload).length > 0 ? write(line, payload) : write(line);
+      return;
+    }
+
+    if (Array.isArray((this.logger as any).transports)) {
+      // winston: (message, meta)
+      this.logger[level](message, payload);
+    } else {
+      // pino and compatible: (mergingObject, message)
+      this.logger[level](payload, message);
+    }
+  }
+
+  private redact(value: unknown): unknown {
+    if (!this.redactKeys || !value || typeof value !== 'object') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message };
+    }
+
+    const result: LogFields = {};
+    for (const [key, field] of Object.entries(value)) {
+      result[key] =
+        this.redactKeys.has(key.toLowerCase()) && field !== undefined ? REDACTED : this.redact(field);
+    }
+    return result;
+  }
+}
+
+/**
+ * Logger that drops every line
+ * Default for chain and storage helpers called without the caller's logger
+ */
+export const SILENT_LOGGER = new PaywallLogger('silent');
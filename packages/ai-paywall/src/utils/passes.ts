@@ -0,0 +1,248 @@
+// Local pass wallet
+// PaywallClient records every AccessPass it buys, so finding a pass for a
+// domain/resource does not depend on scanning recent PassPurchased events
+
+import { promises as fs } from 'fs';
+
+/**
+ * An AccessPass known to the client
+ */
+export interface StoredPass {
+  /** AccessPass object ID */
+  passId: string;
+  /** Wallet that bought the pass */
+  owner: string;
+  domain: string;
+  resource: string;
+  /** Uses left as last seen (on-chain or counted locally) */
+  remaining: number;
+  /** Expiry in ms since epoch (0 = no expiry) */
+  expiry: number;
+  /** When the pass was bought (ms since epoch) */
+  purchasedAt: number;
+  /** When remaining / expiry were last read from the chain (ms since epoch) */
+  syncedAt: number;
+}
+
+/**
+ * Storage for the client's passes
+ *
+ * Keep it persistent (FilePassStore, SqlitePassStore or your own) so passes
+ * survive restarts; the in-memory default only lives as long as the client.
+ */
+export interface PassStore {
+  /** A pass by object ID, or null if unknown */
+  get(passId: string): Promise<StoredPass | null>;
+  /** Passes an owner holds for a domain/resource (usable or not) */
+  find(owner: string, domain: string, resource: string): Promise<StoredPass[]>;
+  /** All passes of an owner */
+  list(owner: string): Promise<StoredPass[]>;
+  /** Insert or replace a pass */
+  save(pass: StoredPass): Promise<void>;
+  /** Forget a pass */
+  remove(passId: string): Promise<void>;
+}
+
+/**
+ * Whether a stored pass still has uses and has not expired
+ */
+export function isStoredPassUsable(pass: StoredPass, now: number = Date.now()): boolean {
+  return pass.remaining > 0 && (pass.expiry === 0 || now < pass.expiry);
+}
+
+/**
+ * In-memory pass store (not persisted)
+ */
+export class MemoryPassStore implements PassStore {
+  private passes = new Map<string, StoredPass>();
+
+  async get(passId: string): Promise<StoredPass | null> {
+    return this.passes.get(passId) || null;
+  }
+
+  async find(owner: string, domain: string, resource: string): Promise<StoredPass[]> {
+    return [...this.passes.values()].filter(
+      (pass) => pass.owner === owner && pass.domain === domain && pass.resource === resource
+    );
+  }
+
+  async list(owner: string): Promise<StoredPass[]> {
+    return [...this.passes.values()].filter((pass) => pass.owner === owner);
+  }
+
+  async save(pass: StoredPass): Promise<void> {
+    this.passes.set(pass.passId, { ...pass });
+  }
+
+  async remove(passId: string): Promise<void> {
+    this.passes.delete(passId);
+  }
+}
+
+/**
+ * Pass store persisted as a JSON file
+ * The file is read once and rewritten (via a temporary file) on every change
+ */
+export class FilePassStore implements PassStore {
+  private passes: Map<string, StoredPass> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async get(passId: string): Promise<StoredPass | null> {
+    return (await this.load()).get(passId) || null;
+  }
+
+  async find(owner: string, domain: string, resource: string): Promise<StoredPass[]> {
+    return [...(await this.load()).values()].filter(
+      (pass) => pass.owner === owner && pass.domain === domain && pass.resource === resource
+    );
+  }
+
+  async list(owner: string): Promise<StoredPass[]> {
+    return [...(await this.load()).values()].filter((pass) => pass.owner === owner);
+  }
+
+  async save(pass: StoredPass): Promise<void> {
+    (await this.load()).set(pass.passId, { ...pass });
+    await this.flush();
+  }
+
+  async remove(passId: string): Promise<void> {
+    if ((await this.load()).delete(passId)) {
+      await this.flush();
+    }
+  }
+
+  private async load(): Promise<Map<string, StoredPass>> {
+    if (this.passes) {
+      return this.passes;
+    }
+
+    let stored: StoredPass[] = [];
+    try {
+      stored = JSON.parse(await fs.readFile(this.path, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    // Another call may have loaded the file while we were reading it
+    if (!this.passes) {
+      this.passes = new Map(stored.map((pass) => [pass.passId, pass]));
+    }
+    return this.passes;
+  }
+
+  private flush(): Promise<void> {
+    // Serialize writes so an older snapshot never replaces a newer one
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        const temporary = `${this.path}.tmp`;
+        await fs.writeFile(temporary, JSON.stringify([...this.passes!.values()], null, 2), 'utf8');
+        await fs.rename(temporary, this.path);
+      });
+    return this.writes;
+  }
+}
+
+/**
+ * Minimal SQLite handle (better-sqlite3 Database, or node:sqlite DatabaseSync)
+ */
+export interface SqliteDatabaseLike {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+/**
+ * Pass store backed by an SQLite table (created if missing)
+ *
+ * @example
+ * ```javascript
+ * const Database = require('better-sqlite3');
+ * const store = new SqlitePassStore(new Database('passes.db'));
+ * ```
+ */
+export class SqlitePassStore implements PassStore {
+  private readonly table: string;
+
+  constructor(private readonly db: SqliteDatabaseLike, table: string = 'access_passes') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid pass store table name: ${table}`);
+    }
+    this.table = table;
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        pass_id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        domain TEXT NOT NULL,
+        resource TEXT NOT NULL,
+        remaining INTEGER NOT NULL,
+        expiry INTEGER NOT NULL,
+        purchased_at INTEGER NOT NULL,
+        synced_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_lookup ON ${table} (owner, domain, resource);`
+    );
+  }
+
+  async get(passId: string): Promise<StoredPass | null> {
+    const row = this.db.prepare(`SELECT * FROM ${this.table} WHERE pass_id = ?`).get(passId);
+    return row ? this.toPass(row) : null;
+  }
+
+  async find(owner: string, domain: string, resource: string): Promise<StoredPass[]> {
+    return this.db
+      .prepare(`SELECT * FROM ${this.table} WHERE owner = ? AND domain = ? AND resource = ?`)
+      .all(owner, domain, resource)
+      .map((row) => this.toPass(row));
+  }
+
+  async list(owner: string): Promise<StoredPass[]> {
+    return this.db
+      .prepare(`SELECT * FROM ${this.table} WHERE owner = ?`)
+      .all(owner)
+      .map((row) => this.toPass(row));
+  }
+
+  async save(pass: StoredPass): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ${this.table}
+          (pass_id, owner, domain, resource, remaining, expiry, purchased_at, synced_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        pass.passId,
+        pass.owner,
+        pass.domain,
+        pass.resource,
+        pass.remaining,
+        pass.expiry,
+        pass.purchasedAt,
+        pass.syncedAt
+      );
+  }
+
+  async remove(passId: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE pass_id = ?`).run(passId);
+  }
+
+  private toPass(row: any): StoredPass {
+    return {
+      passId: String(row.pass_id),
+      owner: String(row.owner),
+      domain: String(row.domain),
+      resource: String(row.resource),
+      remaining: Number(row.remaining),
+      expiry: Number(row.expiry),
+      purchasedAt: Number(row.purchased_at),
+      syncedAt: Number(row.synced_at),
+    };
+  }
+}
@@ -0,0 +1,286 @@
+// Replay protection for signed paywall requests
+
+import { ReplayDetectedError } from '../errors';
+
+/**
+ * Default clock-skew window for x-ts (5 minutes)
+ */
+export const DEFAULT_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Default lifetime of an issued challenge nonce (10 minutes)
+ */
+const DEFAULT_NONCE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Default lifetime of a nonce -> pass binding (24 hours)
+ */
+const DEFAULT_BINDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Default lifetime of a settled purchase or consumption record (1 year)
+ */
+const DEFAULT_SETTLEMENT_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Default capacity of the in-memory store
+ */
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * Key/value store used by the replay guard
+ *
+ * Implementations must be safe to share between processes if the paywall
+ * runs on more than one instance (e.g. Redis `SET key value NX PX ttl`,
+ * or an SQL table with a unique key and an expiry column).
+ */
+export interface ReplayStore {
+  /** Get a value, or null if missing or expired */
+  get(key: string): Promise<string | null>;
+  /** Set a value unconditionally */
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  /**
+   * Set a value only if the key is missing or expired
+   * Returns true if the value was stored, false if the key already existed
+   */
+  setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * In-memory LRU replay store (single process only)
+ *
+ * With `evictLive` false, entries are only dropped once expired: a full store
+ * refuses new keys instead of forgetting a claim that is still in force.
+ */
+export class MemoryReplayStore implements ReplayStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private readonly evictLive: boolean = true
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Move to most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    if (this.entries.size <= this.maxEntries) {
+      return;
+    }
+
+    if (!this.evictLive) {
+      this.evictExpired();
+      if (this.entries.size > this.maxEntries) {
+        this.entries.delete(key);
+        throw new Error('Replay store is full');
+      }
+      return;
+    }
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    // Check and write without awaiting in between, so concurrent callers
+    // cannot both find the key missing
+    const entry = this.entries.get(key);
+    if (entry && Date.now() < entry.expiresAt) {
+      return false;
+    }
+    await this.set(key, value, ttlMs);
+    return true;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now >= entry.expiresAt) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Options for replay protection
+ */
+export interface ReplayGuardOptions {
+  /**
+   * Backing store (default: in memory, issued nonces in an LRU of their own
+   * so challenge floods cannot push out claimed signatures and transactions)
+   */
+  store?: ReplayStore;
+  /** Allowed difference between x-ts and server time in ms (default: 5 minutes) */
+  clockSkewMs?: number;
+  /** How long an issued challenge nonce stays valid for purchase in ms (default: 10 minutes) */
+  nonceTtlMs?: number;
+  /** How long a nonce stays bound to the pass bought with it in ms (default: 24 hours) */
+  bindingTtlMs?: number;
+  /** How long a settled purchase or relayed consume_pass transaction is remembered in ms (default: 1 year) */
+  settlementTtlMs?: number;
+  /**
+   * Capacity of each default in-memory store (default: 10000)
+   * When the claims store is full of unexpired entries, new claims are refused
+   */
+  maxEntries?: number;
+  /**
+   * Reject passes whose nonce was not issued by this paywall (default: false)
+   * Only enable with a shared store, otherwise restarts invalidate existing passes
+   */
+  requireIssuedNonce?: boolean;
+}
+
+/**
+ * Replay guard
+ *
+ * - Remembers every accepted x-sig until it falls out of the clock-skew window,
+ *   so the same signed header set cannot be replayed
+ * - Records the nonces issued in 402 challenges and binds each one to the first
+ *   AccessPass presented with it, so one challenge cannot back several passes
+ * - Remembers settled purchase transactions, so one X-PAYMENT purchase pays for
+ *   one request only
+ * - Remembers relayed consume_pass transactions, so one consumed use serves one
+ *   request only
+ */
+export class ReplayGuard {
+  public readonly clockSkewMs: number;
+  /** Claimed signatures, nonce bindings, settlements and consumptions */
+  private readonly store: ReplayStore;
+  /** Nonces issued in 402 challenges */
+  private readonly nonceStore: ReplayStore;
+  private readonly nonceTtlMs: number;
+  private readonly bindingTtlMs: number;
+  private readonly settlementTtlMs: number;
+  private readonly requireIssuedNonce: boolean;
+
+  constructor(options: ReplayGuardOptions = {}) {
+    this.store = options.store || new MemoryReplayStore(options.maxEntries, false);
+    this.nonceStore = options.store || new MemoryReplayStore(options.maxEntries);
+    this.clockSkewMs = options.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+    this.nonceTtlMs = options.nonceTtlMs ?? DEFAULT_NONCE_TTL_MS;
+    this.bindingTtlMs = options.bindingTtlMs ?? DEFAULT_BINDING_TTL_MS;
+    this.settlementTtlMs = options.settlementTtlMs ?? DEFAULT_SETTLEMENT_TTL_MS;
+    this.requireIssuedNonce = options.requireIssuedNonce ?? false;
+  }
+
+  /**
+   * Record a nonce sent in a 402 challenge
+   */
+  async issueNonce(nonce: string, domain: string, resource: string): Promise<void> {
+    await this.nonceStore.set(
+      `nonce:${nonce}`,
+      JSON.stringify({ domain, resource }),
+      this.nonceTtlMs
+    );
+  }
+
+  /**
+   * Bind a challenge nonce to the AccessPass that was purchased with it
+   * @throws ReplayDetectedError if the nonce belongs to another pass or resource
+   */
+  async bindNonce(nonce: string, passId: string, domain: string, resource: string): Promise<void> {
+    const bindingKey = `nonce-pass:${nonce}`;
+
+    // Fast path: already bound to this pass
+    const boundPassId = await this.store.get(bindingKey);
+    if (boundPassId !== null) {
+      if (boundPassId !== passId) {
+        throw new ReplayDetectedError('Challenge nonce was already used by another AccessPass');
+      }
+      return;
+    }
+
+    const issued = await this.nonceStore.get(`nonce:${nonce}`);
+    if (issued === null) {
+      if (this.requireIssuedNonce) {
+        throw new ReplayDetectedError('AccessPass nonce was not issued by this paywall');
+      }
+      return;
+    }
+
+    const challenge = JSON.parse(issued) as { domain: string; resource: string };
+    if (challenge.domain !== domain || challenge.resource !== resource) {
+      throw new ReplayDetectedError('Challenge nonce was issued for a different resource');
+    }
+
+    if (!(await this.store.setIfAbsent(bindingKey, passId, this.bindingTtlMs))) {
+      // Lost a race with another request - accept only if it bound the same pass
+      if ((await this.store.get(bindingKey)) !== passId) {
+        throw new ReplayDetectedError('Challenge nonce was already used by another AccessPass');
+      }
+    }
+  }
+
+  /**
+   * Mark a signature as used
+   * @throws ReplayDetectedError if the signature has been seen before
+   */
+  async claimSignature(signature: string, passId: string): Promise<void> {
+    // A signature is only accepted while x-ts is within +/- clockSkewMs,
+    // so remembering it for twice the window covers its whole lifetime
+    const claimed = await this.store.setIfAbsent(
+      `sig:${signature}`,
+      passId,
+      this.clockSkewMs * 2
+    );
+
+    if (!claimed) {
+      throw new ReplayDetectedError();
+    }
+  }
+
+  /**
+   * Mark a purchase transaction as settled
+   * A settled purchase stands in for x-sig on the request that carried it,
+   * so its transaction must never pay for a second request
+   * @throws ReplayDetectedError if the transaction was settled before
+   */
+  async claimSettlement(digest: string, passId: string): Promise<void> {
+    const claimed = await this.store.setIfAbsent(
+      `settled:${digest}`,
+      passId,
+      this.settlementTtlMs
+    );
+
+    if (!claimed) {
+      throw new ReplayDetectedError('Purchase transaction was already settled');
+    }
+  }
+
+  /**
+   * Mark a relayed consume_pass transaction as used
+   * @throws ReplayDetectedError if the transaction was relayed before
+   */
+  async claimConsumption(digest: string, passId: string): Promise<void> {
+    const claimed = await this.store.setIfAbsent(
+      `consumed:${digest}`,
+      passId,
+      this.settlementTtlMs
+    );
+
+    if (!claimed) {
+      throw new ReplayDetectedError('consume_pass transaction was already executed');
+    }
+  }
+}
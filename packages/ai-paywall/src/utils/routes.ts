@@ -0,0 +1,118 @@
+// Route table: one paywall instance, many priced resources
+
+import { PaywallRouteConfig } from '../types';
+
+/**
+ * Route matched for a request
+ */
+export interface RouteMatch {
+  /** Pattern as declared in the route table */
+  pattern: string;
+  /** Route settings */
+  config: PaywallRouteConfig;
+  /** Values of :param segments */
+  params: Record<string, string>;
+}
+
+interface CompiledRoute {
+  pattern: string;
+  config: PaywallRouteConfig;
+  regex: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * Route table matched against normalized resource paths
+ *
+ * Pattern syntax:
+ * - `/datasets/:id` - `:id` matches one path segment
+ * - `/files/*.csv`  - `*` matches within one path segment
+ * - `/reports/**`   - `**` matches any number of segments (including none)
+ *
+ * Routes are tried in declaration order, so list specific patterns before broad ones.
+ * The resource path checked against the registry is always the request path itself
+ * (e.g. `/datasets/42`), never the pattern.
+ */
+export class RouteTable {
+  private readonly routes: CompiledRoute[];
+
+  constructor(routes: Record<string, PaywallRouteConfig>) {
+    this.routes = Object.entries(routes).map(([pattern, config]) => {
+      if (!pattern.startsWith('/')) {
+        throw new Error(`Route pattern must start with "/": ${pattern}`);
+      }
+      if (!config.price || parseFloat(config.price) <= 0) {
+        throw new Error(`Price must be greater than 0 for route ${pattern}`);
+      }
+      if (config.maxUses !== undefined && (!Number.isInteger(config.maxUses) || config.maxUses <= 0)) {
+        throw new Error(`maxUses must be a positive integer for route ${pattern}`);
+      }
+      if (config.validityMs !== undefined && config.validityMs < 0) {
+        throw new Error(`validityMs must not be negative for route ${pattern}`);
+      }
+      return { pattern, config, ...compilePattern(pattern) };
+    });
+  }
+
+  /**
+   * Patterns without params or wildcards (each names exactly one resource)
+   */
+  literalRoutes(): Array<{ pattern: string; config: PaywallRouteConfig }> {
+    return this.routes
+      .filter((route) => route.paramNames.length === 0 && !route.pattern.includes('*'))
+      .map(({ pattern, config }) => ({ pattern, config }));
+  }
+
+  /**
+   * Find the first route matching a normalized resource path
+   */
+  match(path: string): RouteMatch | null {
+    for (const route of this.routes) {
+      const result = route.regex.exec(path);
+      if (!result) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = safeDecode(result[index + 1]);
+      });
+      return { pattern: route.pattern, config: route.config, params };
+    }
+    return null;
+  }
+}
+
+/**
+ * Compile a route pattern to an anchored regular expression
+ */
+function compilePattern(pattern: string): { regex: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const segments = pattern.split('/').filter((segment) => segment.length > 0);
+
+  let source = '';
+  for (const segment of segments) {
+    if (segment === '**') {
+      source += '(?:/.*)?';
+    } else if (segment.startsWith(':')) {
+      paramNames.push(segment.slice(1));
+      source += '/([^/]+)';
+    } else {
+      source += '/' + segment.split('*').map(escapeRegExp).join('[^/]*');
+    }
+  }
+
+  return { regex: new RegExp(`^${source || '/'}$`), paramNames };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
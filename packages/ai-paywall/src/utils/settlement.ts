@@ -0,0 +1,176 @@
+// Purchase settlement
+// The client signs (but does not execute) a purchase_pass transaction, the server
+// submits it and reads the created AccessPass from the effects
+
+import { SuiClient } from '@mysten/sui.js/client';
+import { TransactionBlock } from '@mysten/sui.js/transactions';
+import { bcs } from '@mysten/sui.js/bcs';
+import { normalizeSuiAddress } from '@mysten/sui.js/utils';
+import { resolveSuiClient } from './sui';
+import { PurchaseSettlementError, ReplayDetectedError } from '../errors';
+
+/**
+ * Result of a settled purchase_pass transaction
+ */
+export interface PurchaseSettlement {
+  /** Transaction digest */
+  digest: string;
+  /** Object ID of the created AccessPass */
+  passId: string;
+  /** Sender of the transaction (owner of the new pass) */
+  sender: string;
+  /** `price_paid` from the PassPurchased event, in MIST */
+  pricePaid: string;
+}
+
+/**
+ * What a purchase transaction must buy
+ */
+export interface PurchaseExpectation {
+  packageId: string;
+  domain: string;
+  resource: string;
+  receiver: string;
+  /** Most uses the pass may be bought with (default: any) */
+  maxUses?: number;
+}
+
+/**
+ * Check that signed transaction bytes contain exactly one `purchase_pass` call
+ * for our package, buying this domain/resource with no more uses than allowed
+and paying our receiver
+ * Returns the transaction sender
+ */
+export function validatePurchaseTransaction(txBytes: string, expected: PurchaseExpectation): string {
+  let tx: TransactionBlock;
+  try {
+    tx = TransactionBlock.from(txBytes);
+  } catch {
+    throw new PurchaseSettlementError('Malformed purchase_pass transaction');
+  }
+
+  const { sender, transactions, inputs } = tx.blockData;
+  if (!sender) {
+    throw new PurchaseSettlementError('purchase_pass transaction has no sender');
+  }
+
+  const purchaseCalls = transactions.filter((command) => {
+    if (command.kind !== 'MoveCall') {
+      return false;
+    }
+    const [callPackage, callModule, callFunction] = command.target.split('::');
+    return (
+      normalizeSuiAddress(callPackage) === normalizeSuiAddress(expected.packageId) &&
+      callModule === 'paywall' &&
+      callFunction === 'purchase_pass'
+    );
+  });
+  if (purchaseCalls.length !== 1 || purchaseCalls[0].kind !== 'MoveCall') {
+    throw new PurchaseSettlementError('Transaction must contain a single paywall::purchase_pass call');
+  }
+
+  // purchase_pass(payment, domain, resource, remaining, expiry, nonce, receiver, counter)
+  const args = purchaseCalls[0].arguments;
+  const pureBytes = (index: number): Uint8Array | undefined => {
+    const arg = args[index];
+    const value = arg && arg.kind === 'Input' ? (inputs[arg.index]?.value as any) : undefined;
+    return Array.isArray(value?.Pure) ? Uint8Array.from(value.Pure) : undefined;
+  };
+
+  let domain: string, resource: string, remaining: number, receiver: string;
+  try {
+    domain = bcs.String.parse(pureBytes(1)!);
+    resource = bcs.String.parse(pureBytes(2)!);
+    remaining = Number(bcs.U64.parse(pureBytes(3)!));
+    receiver = bcs.Address.parse(pureBytes(6)!);
+  } catch {
+    throw new PurchaseSettlementError('Could not read purchase_pass arguments');
+  }
+
+  if (domain !== expected.domain || resource !== expected.resource) {
+    throw new PurchaseSettlementError('purchase_pass transaction buys a different domain or resource');
+  }
+  if (normalizeSuiAddress(receiver) !== normalizeSuiAddress(expected.receiver)) {
+    throw new PurchaseSettlementError('purchase_pass transaction pays a different receiver');
+  }
+  if (expected.maxUses !== undefined && remaining > expected.maxUses) {
+    throw new PurchaseSettlementError(
+      `purchase_pass transaction buys ${remaining} uses, at most ${expected.maxUses} are allowed`
+    );
+  }
+
+  return normalizeSuiAddress(sender);
+}
+
+/**
+ * Submit a signed purchase_pass transaction and wait for it to succeed
+ *
+ * Submitting an already-executed transaction would return its original effects,
+ * so transactions the chain already has are refused. Concurrent submissions of
+ * the same transaction still both succeed: callers must record settled digests
+ * (ReplayGuard.claimSettlement) and reject repeats.
+ *
+ * @throws ReplayDetectedError if the transaction was executed before
+ */
+export async function submitPurchaseTransaction(
+  txBytes: string,
+  signature: string,
+  expected: PurchaseExpectation,
+  rpc?: SuiClient | string // Injected client or RPC URL
+): Promise<PurchaseSettlement> {
+  const sender = validatePurchaseTransaction(txBytes, expected);
+
+  const client = resolveSuiClient(rpc);
+
+  // A lookup failure is not proof of a new transaction, but the caller's
+  // settlement record still catches repeats it has seen
+  const digest = await TransactionBlock.from(txBytes).getDigest();
+  const executed = await client
+    .getTransactionBlock({ digest })
+    .then(() => true)
+    .catch(() => false);
+  if (executed) {
+    throw new ReplayDetectedError('Purchase transaction was already settled');
+  }
+
+  let result;
+  try {
+    result = await client.executeTransactionBlock({
+      transactionBlock: txBytes,
+      signature,
+      requestType: 'WaitForLocalExecution',
+      options: {
+        showEffects: true,
+        showEvents: true,
+        showObjectChanges: true,
+      },
+    });
+  } catch (error: any) {
+    throw new PurchaseSettlementError(
+      `Failed to submit purchase_pass transaction: ${error.message || 'Unknown error'}`
+    );
+  }
+
+  if (result.effects?.status.status !== 'success') {
+    throw new PurchaseSettlementError(
+      `purchase_pass transaction failed: ${result.effects?.status.error || 'Unknown error'}`
+    );
+  }
+
+  const created = result.objectChanges?.find(
+    (change) => change.type === 'created' && change.objectType.endsWith('::paywall::AccessPass')
+  );
+  const purchasedEvent = result.events?.find((event) =>
+    event.type.endsWith('::paywall::PassPurchased')
+  );
+  if (!created || created.type !== 'created' || !purchasedEvent) {
+    throw new PurchaseSettlementError('purchase_pass transaction did not create an AccessPass');
+  }
+
+  return {
+    digest: result.digest,
+    passId: created.objectId,
+    sender,
+    pricePaid: String((purchasedEvent.parsedJson as any)?.price_paid ?? '0'),
+  };
+}
@@ -1,23 +1,119 @@
 // Signature verification helpers
 
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { parseSerializedSignature, SignatureScheme } from '@mysten/sui/cryptography';
+import { SuiClient } from '@mysten/sui/client';
+import type { ZkLoginCompatibleClient } from '@mysten/sui/zklogin';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { SignatureVerificationError } from '../errors';
+
+/**
+ * Default maximum difference between x-ts and server time (5 minutes)
+ */
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Signature schemes accepted for x-sig
+ * (Passkey is parsed by the SDK but not supported by the paywall)
+ */
+const SUPPORTED_SCHEMES: SignatureScheme[] = [
+  'ED25519',
+  'Secp256k1',
+  'Secp256r1',
+  'MultiSig',
+  'ZkLogin',
+];
+
+/**
+ * SHA-256 of an empty body (hex)
+ */
+export const EMPTY_BODY_SHA256 = bytesToHex(sha256(new Uint8Array(0)));
+
+/**
+ * The HTTP request a signature is bound to
+ */
+export interface SignedRequest {
+  /** HTTP method, upper case */
+  method: string;
+  /** Canonical query string (see canonicalizeQuery) */
+  query: string;
+  /** Hex SHA-256 of the raw request body */
+  bodySha256: string;
+}
+
+/**
+ * Canonical query string: pairs sorted by name, then value, and re-encoded
+ */
+export function canonicalizeQuery(query: string = ''): string {
+  return [...new URLSearchParams(query.replace(/^\?/, ''))]
+    .sort(([nameA, valueA], [nameB, valueB]) =>
+      nameA < nameB ? -1 : nameA > nameB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0
+    )
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Hex SHA-256 of a request body (strings are hashed as UTF-8)
+ */
+export function hashRequestBody(body?: string | Uint8Array): string {
+  if (body === undefined) {
+    return EMPTY_BODY_SHA256;
+  }
+  return bytesToHex(sha256(typeof body === 'string' ? utf8ToBytes(body) : body));
+}
+
+/**
+ * Describe a request for signing
+ * @param url - Request URL or path (only its query string is used)
+ */
+export function createSignedRequest(method: string, url: string = '', body?: string | Uint8Array): SignedRequest {
+  return {
+    method: method.toUpperCase(),
+    query: canonicalizeQuery(url.includes('?') ? url.slice(url.indexOf('?') + 1).split('#')[0] : ''),
+    bodySha256: hashRequestBody(body),
+  };
+}
+
 /**
  * Message to sign for authentication
+ * Binds the signature to the request: method, canonical query and body hash
+ * (a GET without query or body when `request` is omitted)
  */
-export function createSignMessage(passId: string, domain: string, resource: string, timestamp: string): string {
+export function createSignMessage(
+  passId: string,
+  domain: string,
+  resource: string,
+  timestamp: string,
+  request: SignedRequest = createSignedRequest('GET')
+): string {
   return JSON.stringify({
     passId,
     domain,
     resource,
     ts: timestamp,
+    method: request.method.toUpperCase(),
+    query: request.query,
+    bodySha256: request.bodySha256.toLowerCase(),
   });
 }
 
 /**
  * Verify signature from headers
- * 
- * Note: For Option 1 (verify-only), we do basic validation.
- * Full signature verification can be added later if needed.
- * The contract will verify ownership when consume_pass is called.
+ *
+ * Checks that x-sig is a valid Sui personal-message signature over
+ * createSignMessage(passId, domain, resource, timestamp, request) and that the
+ * signing key derives to the x-signer address. A signature made for another
+ * method, query string or body does not verify.
+ *
+ * Supports Ed25519, Secp256k1, Secp256r1, MultiSig and zkLogin signatures.
+ * zkLogin signatures are verified through the Sui RPC (injected client or URL).
+ * x-ts must be within maxSkewMs of the server clock (default: 5 minutes).
+ *
+ * @throws SignatureVerificationError with a reason code on any failure
+ * @returns The signature scheme that was verified
  */
 export async function verifySignature(
   passId: string,
@@ -25,41 +121,68 @@ export async function verifySignature(
   resource: string,
   timestamp: string,
   signer: string,
-  signature: string
-): Promise<boolean> {
+  signature: string,
+  rpc?: ZkLoginCompatibleClient | string, // Injected client or RPC URL (zkLogin only)
+  maxSkewMs: number = MAX_SIGNATURE_AGE_MS,
+  request?: SignedRequest // Request as received (default: GET without query or body)
+): Promise<SignatureScheme> {
+  // Verify all required fields are present
+  if (!passId || !domain || !resource || !signer || !signature || signature.trim().length === 0) {
+    throw new SignatureVerificationError('Missing signature fields', 'MISSING_FIELDS');
+  }
+
+  // Check timestamp is recent (within the allowed clock skew)
+  const ts = parseInt(timestamp);
+  if (isNaN(ts)) {
+    throw new SignatureVerificationError('Invalid signature timestamp', 'INVALID_TIMESTAMP');
+  }
+
+  if (Math.abs(Date.now() - ts) > maxSkewMs) {
+    throw new SignatureVerificationError('Signature timestamp is outside the allowed window', 'TIMESTAMP_OUT_OF_RANGE');
+  }
+
+  // Parse the serialized signature to find the scheme
+  let scheme: SignatureScheme;
+  try {
+    scheme = parseSerializedSignature(signature).signatureScheme;
+  } catch {
+    throw new SignatureVerificationError('Malformed signature', 'MALFORMED_SIGNATURE');
+  }
+
+  if (!SUPPORTED_SCHEMES.includes(scheme)) {
+    throw new SignatureVerificationError(`Unsupported signature scheme: ${scheme}`, 'UNSUPPORTED_SCHEME');
+  }
+
+  // Verify the signature over the exact message the client signed
+  const message = new TextEncoder().encode(createSignMessage(passId, domain, resource, timestamp, request));
+  let publicKey;
   try {
-    // Basic validation: signature must exist and have valid format
-    if (!signature || signature.trim().length === 0) {
-      return false;
-    }
-
-    // Check timestamp is recent (within 5 minutes)
-    const ts = parseInt(timestamp);
-    if (isNaN(ts)) {
-      return false;
-    }
-
-    const now = Date.now();
-    const fiveMinutes = 5 * 60 * 1000;
-    
-    if (Math.abs(now - ts) > fiveMinutes) {
-      return false;
-    }
-
-    // Verify all required fields are present
-    if (!passId || !domain || !resource || !signer) {
-      return false;
-    }
-
-    // For Option 1: Basic validation passes
-    // Full signature verification can be added later using Sui SDK
-    // The contract will verify ownership when consume_pass is called
-    
-    return true;
-  } catch (error) {
-    console.error('Signature verification error:', error);
-    return false;
+    publicKey = await verifyPersonalMessageSignature(message, signature, {
+      // zkLogin signatures need a client to verify against the chain
+      client:
+        scheme !== 'ZkLogin' || !rpc
+          ? undefined
+          : typeof rpc === 'string'
+          ? new SuiClient({ url: rpc })
+          : rpc,
+    });
+  } catch {
+    throw new SignatureVerificationError('Signature is not valid for the signed message', 'INVALID_SIGNATURE');
   }
+
+  // Recovered address must match x-signer
+  let normalizedSigner: string;
+  try {
+    normalizedSigner = normalizeSuiAddress(signer);
+  } catch {
+    throw new SignatureVerificationError('Signer is not a valid Sui address', 'SIGNER_MISMATCH');
+  }
+
+  if (!publicKey.verifyAddress(normalizedSigner)) {
+    throw new SignatureVerificationError('Signature was not produced by x-signer', 'SIGNER_MISMATCH');
+  }
+
+  return scheme;
 }
 
 /**
@@ -0,0 +1,259 @@
+// Client spending policy
+// Caps what PaywallClient pays for 402 challenges on its own: per request, per
+// domain and per rolling day, with allow/deny lists, an approval hook and a ledger
+
+import { promises as fs } from 'fs';
+import { normalizeSuiAddress } from '@mysten/sui.js/utils';
+import { PaymentChallenge } from '../types';
+import { SpendLimitExceededError } from '../errors';
+
+/**
+ * Default window for the per-domain and daily maximums (24 hours)
+ */
+const DEFAULT_SPEND_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One payment in the spend ledger
+ */
+export interface SpendRecord {
+  /** When the payment was made (ms since epoch) */
+  timestamp: number;
+  domain: string;
+  resource: string;
+  receiver: string;
+  /** Amount paid in MIST */
+  amountMist: string;
+  /** AccessPass bought, when known */
+  passId?: string;
+}
+
+/**
+ * Storage for past payments
+ *
+ * Persist it (e.g. FileSpendLedger, or an SQL table) so limits survive restarts;
+ * the in-memory default forgets everything when the process exits.
+ */
+export interface SpendLedger {
+  /** Payments made at or after `since` (ms since epoch) */
+  list(since: number): Promise<SpendRecord[]>;
+  /** Append a payment */
+  record(entry: SpendRecord): Promise<void>;
+}
+
+/**
+ * In-memory spend ledger (single process, not persisted)
+ */
+export class MemorySpendLedger implements SpendLedger {
+  private entries: SpendRecord[] = [];
+
+  async list(since: number): Promise<SpendRecord[]> {
+    return this.entries.filter((entry) => entry.timestamp >= since);
+  }
+
+  async record(entry: SpendRecord): Promise<void> {
+    this.entries.push(entry);
+  }
+}
+
+/**
+ * Spend ledger persisted as JSON lines in a local file
+ */
+export class FileSpendLedger implements SpendLedger {
+  constructor(private readonly path: string) {}
+
+  async list(since: number): Promise<SpendRecord[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as SpendRecord)
+      .filter((entry) => entry.timestamp >= since);
+  }
+
+  async record(entry: SpendRecord): Promise<void> {
+    await fs.appendFile(this.path, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+}
+
+/**
+ * Options for the client spending policy
+ * Amounts are in SUI (e.g. "0.05"), like challenge prices
+ */
+export interface SpendingPolicyOptions {
+  /** Most a single challenge may cost */
+  maxPerRequest?: string;
+  /** Most one domain may be paid within the window */
+  maxPerDomain?: string;
+  /** Most paid across all domains within the window */
+  maxPerDay?: string;
+  /** Rolling window for maxPerDomain and maxPerDay in ms (default: 24 hours) */
+  windowMs?: number;
+  /** Only pay these domains ('*.example.com' matches subdomains) */
+  allowDomains?: string[];
+  /** Never pay these domains */
+  denyDomains?: string[];
+  /** Only pay these receiver addresses */
+  allowReceivers?: string[];
+  /** Never pay these receiver addresses */
+  denyReceivers?: string[];
+  /** Final say on every payment that passed the limits; return false to refuse */
+  approve?: (challenge: PaymentChallenge) => boolean | Promise<boolean>;
+  /** Where payments are recorded (default: in-memory) */
+  ledger?: SpendLedger;
+}
+
+/**
+ * A payment admitted by the policy, counted against the limits until settled
+ */
+export interface SpendReservation {
+  /** Record the payment in the ledger */
+  commit(passId?: string): Promise<void>;
+  /** Drop the reservation (the payment did not happen) */
+  release(): void;
+}
+
+/**
+ * Convert a SUI amount to MIST the way PaywallClient pays it
+ */
+function suiToMist(amount: string): bigint {
+  return BigInt(Math.round(parseFloat(amount) * 1_000_000_000));
+}
+
+/**
+ * What paying a challenge costs in MIST
+ * The larger of `price` (what purchase_pass is called with) and `priceInMist`
+ */
+export function challengeAmountMist(challenge: PaymentChallenge): bigint {
+  const fromPrice = suiToMist(challenge.price);
+  const fromMist = challenge.priceInMist ? BigInt(challenge.priceInMist) : BigInt(0);
+  return fromPrice > fromMist ? fromPrice : fromMist;
+}
+
+/**
+ * Whether a domain matches a list entry (exact, or '*.example.com' for subdomains)
+ */
+function matchesDomain(domain: string, pattern: string): boolean {
+  const host = domain.toLowerCase();
+  const entry = pattern.toLowerCase();
+  if (entry.startsWith('*.')) {
+    return host.endsWith(entry.slice(1));
+  }
+  return host === entry;
+}
+
+/**
+ * Spending policy
+ *
+ * Admissions are serialized, so concurrent purchases cannot all squeeze under
+ * a limit; admitted but uncommitted payments count against the limits.
+ */
+export class SpendingPolicy {
+  private readonly options: SpendingPolicyOptions;
+  private readonly ledger: SpendLedger;
+  private readonly windowMs: number;
+  private readonly pending = new Set<SpendRecord>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: SpendingPolicyOptions = {}) {
+    this.options = options;
+    this.ledger = options.ledger || new MemorySpendLedger();
+    this.windowMs = options.windowMs ?? DEFAULT_SPEND_WINDOW_MS;
+  }
+
+  /**
+   * Admit a payment for a challenge
+   * @throws SpendLimitExceededError if a list, limit or the approval hook refuses it
+   */
+  authorize(challenge: PaymentChallenge): Promise<SpendReservation> {
+    const admission = this.queue.then(() => this.admit(challenge));
+    this.queue = admission.catch(() => undefined);
+    return admission;
+  }
+
+  /**
+   * Amount paid within the window, in MIST (optionally for one domain)
+   */
+  async spent(domain?: string): Promise<bigint> {
+    const since = Date.now() - this.windowMs;
+    const entries = [...(await this.ledger.list(since)), ...this.pending];
+    return entries
+      .filter((entry) => !domain || entry.domain.toLowerCase() === domain.toLowerCase())
+      .reduce((total, entry) => total + BigInt(entry.amountMist), BigInt(0));
+  }
+
+  private async admit(challenge: PaymentChallenge): Promise<SpendReservation> {
+    const options = this.options;
+    const amount = challengeAmountMist(challenge);
+    const receiver = normalizeSuiAddress(challenge.receiver);
+    const listed = (addresses: string[]) =>
+      addresses.some((address) => normalizeSuiAddress(address) === receiver);
+
+    if (options.denyDomains?.some((pattern) => matchesDomain(challenge.domain, pattern))) {
+      throw new SpendLimitExceededError(`Domain ${challenge.domain} is denied`, 'DOMAIN_DENIED');
+    }
+    if (options.allowDomains && !options.allowDomains.some((pattern) => matchesDomain(challenge.domain, pattern))) {
+      throw new SpendLimitExceededError(`Domain ${challenge.domain} is not allowed`, 'DOMAIN_DENIED');
+    }
+    if (options.denyReceivers && listed(options.denyReceivers)) {
+      throw new SpendLimitExceededError(`Receiver ${challenge.receiver} is denied`, 'RECEIVER_DENIED');
+    }
+    if (options.allowReceivers && !listed(options.allowReceivers)) {
+      throw new SpendLimitExceededError(`Receiver ${challenge.receiver} is not allowed`, 'RECEIVER_DENIED');
+    }
+
+    if (options.maxPerRequest && amount > suiToMist(options.maxPerRequest)) {
+      throw new SpendLimitExceededError(
+        `Price ${amount} MIST exceeds the per-request maximum of ${options.maxPerRequest} SUI`,
+        'PER_REQUEST'
+      );
+    }
+    if (options.maxPerDomain && (await this.spent(challenge.domain)) + amount > suiToMist(options.maxPerDomain)) {
+      throw new SpendLimitExceededError(
+        `Paying ${amount} MIST would exceed the maximum of ${options.maxPerDomain} SUI for ${challenge.domain}`,
+        'PER_DOMAIN'
+      );
+    }
+    if (options.maxPerDay && (await this.spent()) + amount > suiToMist(options.maxPerDay)) {
+      throw new SpendLimitExceededError(
+        `Paying ${amount} MIST would exceed the daily maximum of ${options.maxPerDay} SUI`,
+        'DAILY'
+      );
+    }
+
+    if (options.approve && !(await options.approve(challenge))) {
+      throw new SpendLimitExceededError(`Payment to ${challenge.domain} was not approved`, 'NOT_APPROVED');
+    }
+
+    const entry: SpendRecord = {
+      timestamp: Date.now(),
+      domain: challenge.domain,
+      resource: challenge.resource,
+      receiver,
+      amountMist: amount.toString(),
+    };
+    this.pending.add(entry);
+
+    return {
+      commit: async (passId?: string) => {
+        if (!this.pending.has(entry)) {
+          return;
+        }
+        // Stays pending until recorded, so it is never briefly uncounted
+        await this.ledger.record(passId ? { ...entry, passId } : entry);
+        this.pending.delete(entry);
+      },
+      release: () => {
+        this.pending.delete(entry);
+      },
+    };
+  }
+}
@@ -1,7 +1,10 @@
 // Sui SDK helpers
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui.js/client';
+import { SuiClient, SuiTransport, getFullnodeUrl } from '@mysten/sui.js/client';
+import { SuiClient as SealSuiClient } from '@mysten/sui/client';
+import { fromB64, normalizeSuiAddress } from '@mysten/sui.js/utils';
 import { AccessPass } from '../types';
+import { PaywallLogger, SILENT_LOGGER } from './logger';
 
 /**
  * Default RPC URL for testnet
@@ -9,12 +12,44 @@ import { AccessPass } from '../types';
 const DEFAULT_RPC_URL = getFullnodeUrl('testnet');
 
 /**
- * Create Sui client instance
+ * Sui clients by RPC URL (reused across requests)
  */
-export function createSuiClient(rpcUrl?: string): SuiClient {
-  return new SuiClient({
-    url: rpcUrl || DEFAULT_RPC_URL,
-  });
+const clients = new Map<string, SuiClient>();
+
+/**
+ * Get Sui client instance (one per RPC URL)
+ * A client built on a custom transport is never shared
+ */
+export function createSuiClient(rpcUrl?: string, transport?: SuiTransport): SuiClient {
+  if (transport) {
+    return new SuiClient({ transport });
+  }
+
+  const url = rpcUrl || DEFAULT_RPC_URL;
+  let client = clients.get(url);
+  if (!client) {
+    client = new SuiClient({ url });
+    clients.set(url, client);
+  }
+  return client;
+}
+
+/**
+ * Create the @mysten/sui client used by Seal and zkLogin verification
+ */
+export function createSealSuiClient(rpcUrl?: string, transport?: SuiTransport): SealSuiClient {
+  if (transport) {
+    // Both SDKs speak the same JSON-RPC transport interface
+    return new SealSuiClient({ transport: transport as any });
+  }
+  return new SealSuiClient({ url: rpcUrl || DEFAULT_RPC_URL });
+}
+
+/**
+ * Use an injected client, or get one for an RPC URL
+ */
+export function resolveSuiClient(rpc?: SuiClient | string): SuiClient {
+  return rpc && typeof rpc === 'object' ? rpc : createSuiClient(rpc);
 }
 
 /**
@@ -63,18 +98,19 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number, errorMessage: st
 export async function fetchAccessPass(
   passId: string,
   packageId: string,
-  rpcUrl?: string
+  rpc?: SuiClient | string, // Injected client or RPC URL
+  log: PaywallLogger = SILENT_LOGGER
 ): Promise<AccessPass | null> {
-  const client = createSuiClient(rpcUrl);
+  const client = resolveSuiClient(rpc);
 
   try {
     // Validate pass ID format
     if (!passId || !passId.startsWith('0x') || passId.length !== 66) {
-      console.error('[Sui] Invalid pass ID format:', passId);
+      log.warn('Invalid pass ID format', { passId });
       return null;
     }
 
-    console.log(`[Sui] Fetching object: ${passId}`);
+    log.debug('Fetching AccessPass object', { passId });
     const startTime = Date.now();
 
     // Fetch object from Sui with timeout (10 seconds)
@@ -92,23 +128,21 @@ export async function fetchAccessPass(
       10000, // 10 second timeout
       'Timeout: Failed to fetch AccessPass from Sui within 10 seconds'
     ).catch((error) => {
-      const elapsed = Date.now() - startTime;
-      console.error(`[Sui] Error fetching AccessPass (after ${elapsed}ms):`, error.message);
+      log.error('Error fetching AccessPass', { passId, elapsedMs: Date.now() - startTime, error });
       throw error;
     });
 
-    const elapsed = Date.now() - startTime;
-    console.log(`[Sui] Object fetched in ${elapsed}ms`);
+    log.debug('AccessPass object fetched', { passId, elapsedMs: Date.now() - startTime });
 
     if (!object || !object.data || object.error) {
-      console.error('Error fetching object:', object?.error || 'No data');
+      log.warn('AccessPass object not found', { passId, error: object?.error || 'No data' });
       return null;
     }
 
-    // Verify object type matches AccessPass from our contract
+    // Verify object type is AccessPass from our contract (not a look-alike from another package)
     const objectType = object.data.type;
-    if (objectType && !objectType.includes('AccessPass')) {
-      console.error('Object is not an AccessPass:', objectType);
+    if (objectType !== `${normalizeSuiAddress(packageId)}::paywall::AccessPass`) {
+      log.warn('Object is not an AccessPass', { passId, objectType });
       return null;
     }
 
@@ -129,7 +163,7 @@ export async function fetchAccessPass(
             if (typeof field.bytes === 'string') {
               // Base64 encoded bytes - decode to string
               try {
-                return Buffer.from(field.bytes, 'base64').toString('utf8');
+                return new TextDecoder().decode(fromB64(field.bytes));
               } catch (e) {
                 return field.bytes;
               }
@@ -166,7 +200,7 @@ export async function fetchAccessPass(
 
     return null;
   } catch (error) {
-    console.error('Error fetching AccessPass:', error);
+    log.error('Error fetching AccessPass', { passId, error });
     return null;
   }
 }
@@ -191,6 +225,93 @@ export function isAccessPassValid(pass: AccessPass): boolean {
   return true;
 }
 
+/**
+ * Payment details of the transaction that created an AccessPass
+ */
+export interface PassPurchase {
+  /** Purchase transaction digest */
+  digest: string;
+  /** `receiver` argument of the purchase_pass call */
+  receiver: string;
+  /** `price_paid` from the PassPurchased event, in MIST */
+  pricePaid: string;
+}
+
+/**
+ * Find the purchase_pass call that created an AccessPass
+ *
+ * AccessPass does not store the receiver, so it is read from the creating
+ * transaction: the first transaction that touched the pass object.
+ * Returns null if the pass was not created by purchase_pass of this package.
+ */
+export async function fetchPassPurchase(
+  passId: string,
+  passNumber: string | number,
+  packageId: string,
+  rpc?: SuiClient | string // Injected client or RPC URL
+): Promise<PassPurchase | null> {
+  const client = resolveSuiClient(rpc);
+
+  const created = await client.queryTransactionBlocks({
+    filter: { ChangedObject: passId },
+    order: 'ascending',
+    limit: 1,
+  });
+  const digest = created.data[0]?.digest;
+  if (!digest) {
+    return null;
+  }
+
+  const tx = await client.getTransactionBlock({
+    digest,
+    options: { showInput: true, showEvents: true },
+  });
+
+  // The RPC reports addresses in their full form; packageId may be written short
+  const normalizedPackageId = normalizeSuiAddress(packageId);
+
+  // purchase_pass calls and PassPurchased events appear in the same order
+  const purchaseEvents = (tx.events || []).filter(
+    (event) => event.type === `${normalizedPackageId}::paywall::PassPurchased`
+  );
+  const eventIndex = purchaseEvents.findIndex(
+    (event) => String((event.parsedJson as any)?.pass_id) === String(passNumber)
+  );
+  if (eventIndex === -1) {
+    return null;
+  }
+
+  const data = tx.transaction?.data.transaction;
+  if (!data || data.kind !== 'ProgrammableTransaction') {
+    return null;
+  }
+
+  const purchaseCalls = data.transactions.filter(
+    (command): command is { MoveCall: any } =>
+      'MoveCall' in command &&
+      normalizeSuiAddress(command.MoveCall.package) === normalizedPackageId &&
+      command.MoveCall.module === 'paywall' &&
+      command.MoveCall.function === 'purchase_pass'
+  );
+  const call = purchaseCalls[eventIndex]?.MoveCall;
+
+  // purchase_pass(payment, domain, resource, remaining, expiry, nonce, receiver, counter)
+  const receiverArg = call?.arguments?.[6];
+  const receiverInput =
+    receiverArg && typeof receiverArg === 'object' && 'Input' in receiverArg
+      ? data.inputs[receiverArg.Input]
+      : undefined;
+  if (!receiverInput || receiverInput.type !== 'pure') {
+    return null;
+  }
+
+  return {
+    digest,
+    receiver: String(receiverInput.value),
+    pricePaid: String((purchaseEvents[eventIndex].parsedJson as any).price_paid),
+  };
+}
+
 /**
  * Normalize resource path (remove trailing slash for consistency)
  */
@@ -208,7 +329,8 @@ function normalizeResourcePath(path: string): string {
 export function matchesAccessPass(
   pass: AccessPass,
   domain: string,
-  resource: string
+  resource: string,
+  log: PaywallLogger = SILENT_LOGGER
 ): boolean {
   // Normalize both paths to handle trailing slash differences
   const normalizedPassResource = normalizeResourcePath(pass.resource);
@@ -217,7 +339,7 @@ export function matchesAccessPass(
   const domainMatch = pass.domain === domain;
   const resourceMatch = normalizedPassResource === normalizedRequestResource;
   
-  console.log(`[Sui] Resource match check:`, {
+  log.debug('Resource match check', {
     passDomain: pass.domain,
     requestDomain: domain,
     domainMatch,
@@ -250,178 +372,202 @@ export interface ResourceEntry {
 }
 
 /**
- * Fetch ResourceEntry from registry
- * 
- * Note: If the registry table lookup fails (no dynamic fields), this function
- * will attempt to use directResourceEntryId as a fallback if provided.
+ * Move type of registry table keys
  */
-export async function fetchResourceEntry(
-  registryId: string,
-  packageId: string,
-  domain: string,
-  resource: string,
-  rpcUrl?: string,
-  directResourceEntryId?: string // Optional: if provided, fetch directly
-): Promise<ResourceEntry | null> {
-  const client = createSuiClient(rpcUrl);
-
-  try {
-    // If direct ResourceEntry ID is provided, fetch it directly
-    if (directResourceEntryId) {
-      console.log(`[Sui] Fetching ResourceEntry directly: ${directResourceEntryId}`);
-      const resourceEntry = await client.getObject({
-        id: directResourceEntryId,
-        options: { showContent: true },
-      });
-
-      if (!resourceEntry.data || !resourceEntry.data.content || 'fields' in resourceEntry.data.content === false) {
-        console.error('[Sui] ResourceEntry not found or invalid');
-        return null;
-      }
-
-      const fields = (resourceEntry.data.content as any).fields;
-      
-      // Helper to extract string
-      const extractString = (field: any): string => {
-        if (typeof field === 'string') return field;
-        if (field && typeof field === 'object' && 'bytes' in field) {
-          if (typeof field.bytes === 'string') {
-            try {
-              return Buffer.from(field.bytes, 'base64').toString('utf8');
-            } catch {
-              return field.bytes;
-            }
-          }
-          return String(field.bytes);
-        }
-        return String(field || '');
-      };
+const STRING_TYPE = '0x1::string::String';
 
-      const entryDomain = extractString(fields.domain);
-      const entryResource = extractString(fields.resource);
-
-      // Verify it matches the requested domain and resource
-      if (entryDomain === domain && entryResource === resource) {
-        return {
-          domain: entryDomain,
-          resource: entryResource,
-          walrus_cid: extractString(fields.walrus_cid),
-          seal_policy: extractString(fields.seal_policy),
-          price: String(fields.price || '0'),
-          receiver: String(fields.receiver || ''),
-          max_uses: Number(fields.max_uses || 0),
-          validity_duration: Number(fields.validity_duration || 0),
-          owner: String(fields.owner || ''),
-          created_at: Number(fields.created_at || 0),
-          active: Boolean(fields.active !== false),
-          resource_id: directResourceEntryId,
-        };
-      } else {
-        console.warn(`[Sui] ResourceEntry domain/resource mismatch: expected ${domain}${resource}, got ${entryDomain}${entryResource}`);
-        // Continue to try table lookup
+/**
+ * Extract string from a Sui string::String field
+ */
+function extractMoveString(field: any): string {
+  if (typeof field === 'string') return field;
+  if (field && typeof field === 'object' && 'bytes' in field) {
+    if (typeof field.bytes === 'string') {
+      try {
+        return new TextDecoder().decode(fromB64(field.bytes));
+      } catch {
+        return field.bytes;
       }
     }
+    return String(field.bytes);
+  }
+  return String(field || '');
+}
+
+/**
+ * Parse ResourceEntry object fields
+ */
+function parseResourceEntry(fields: any, resourceId: string): ResourceEntry {
+  return {
+    domain: extractMoveString(fields.domain),
+    resource: extractMoveString(fields.resource),
+    walrus_cid: extractMoveString(fields.walrus_cid),
+    seal_policy: extractMoveString(fields.seal_policy),
+    price: String(fields.price || '0'),
+    receiver: String(fields.receiver || ''),
+    max_uses: Number(fields.max_uses || 0),
+    validity_duration: Number(fields.validity_duration || 0),
+    owner: String(fields.owner || ''),
+    created_at: Number(fields.created_at || 0),
+    active: Boolean(fields.active !== false),
+    resource_id: resourceId, // Include the resource object ID
+  };
+}
 
-    // First, get the resource ID from the registry
-    const registry = await client.getObject({
-      id: registryId,
-      options: { showContent: true },
+/**
+ * Fetch the object fields of a table entry keyed by a string
+ *
+ * Looks the key up directly with getDynamicFieldObject and falls back to
+ * paginating through every dynamic field of the table if that fails.
+ * Returns the Field<String, V> object fields ({ name, value }) or null.
+ */
+export async function fetchTableEntryByString(
+  client: SuiClient,
+  tableId: string,
+  key: string,
+  log: PaywallLogger = SILENT_LOGGER
+): Promise<any | null> {
+  // Direct lookup by typed key
+  try {
+    const field = await client.getDynamicFieldObject({
+      parentId: tableId,
+      name: { type: STRING_TYPE, value: key },
     });
 
-    if (!registry.data || !registry.data.content || 'fields' in registry.data.content === false) {
-      console.error('[Sui] Registry not found or invalid');
+    if (field.data?.content && 'fields' in field.data.content) {
+      return field.data.content.fields;
+    }
+    if (field.error?.code === 'dynamicFieldNotFound') {
       return null;
     }
+  } catch (error: any) {
+    log.warn('Direct dynamic field lookup failed, scanning pages', { tableId, error });
+  }
 
-    // The registry has a nested table: resources: Table<String, Table<String, ID>>
-    // We need to query the dynamic fields to find the resource
-    const dynamicFields = await client.getDynamicFields({
-      parentId: registryId,
+  // Fallback: walk every page of dynamic fields
+  let cursor: string | null = null;
+  do {
+    const page = await client.getDynamicFields({
+      parentId: tableId,
+      cursor,
     });
 
-    // Find the domain entry
-    let domainTableId: string | null = null;
-    for (const field of dynamicFields.data) {
-      if (field.name && typeof field.name === 'object' && 'value' in field.name) {
-        const fieldValue = field.name.value;
-        if (fieldValue === domain) {
-          domainTableId = field.objectId;
-          break;
+    for (const field of page.data) {
+      if (field.name && field.name.value === key) {
+        const fieldObject = await client.getObject({
+          id: field.objectId,
+          options: { showContent: true },
+        });
+        if (fieldObject.data?.content && 'fields' in fieldObject.data.content) {
+          return fieldObject.data.content.fields;
         }
+        return null;
       }
     }
 
-    if (!domainTableId) {
-      console.error(`[Sui] Domain not found in registry: ${domain}`);
-      return null;
-    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
 
-    // Find the resource entry in the domain table
-    const resourceDynamicFields = await client.getDynamicFields({
-      parentId: domainTableId,
-    });
+  return null;
+}
 
-    let resourceId: string | null = null;
-    for (const field of resourceDynamicFields.data) {
-      if (field.name && typeof field.name === 'object' && 'value' in field.name) {
-        const fieldValue = field.name.value;
-        if (fieldValue === resource) {
-          resourceId = field.objectId;
-          break;
-        }
-      }
-    }
+/**
+ * Fetch ResourceEntry from registry
+ *
+ * The registry stores `resources: Table<String, Table<String, ID>>`
+ * (domain -> resource path -> ResourceEntry ID). Each level is looked up
+ * by key, so lookups don't depend on how many domains or resources exist.
+ *
+ * If directResourceEntryId is provided it is tried first, falling back to
+ * the registry lookup if it doesn't match the requested domain/resource.
+ *
+ * Returns null only when the resource is not registered. RPC failures and a
+ * missing registry throw, so an outage is never cached as "not registered".
+ */
+export async function fetchResourceEntry(
+  registryId: string,
+  packageId: string,
+  domain: string,
+  resource: string,
+  rpc?: SuiClient | string, // Injected client or RPC URL
+  directResourceEntryId?: string, // Optional: if provided, fetch directly
+  log: PaywallLogger = SILENT_LOGGER
+): Promise<ResourceEntry | null> {
+  const client = resolveSuiClient(rpc);
 
-    if (!resourceId) {
-      console.error(`[Sui] Resource not found in registry: ${domain}${resource}`);
-      return null;
-    }
+  // If direct ResourceEntry ID is provided, fetch it directly
+  if (directResourceEntryId) {
+    log.debug('Fetching ResourceEntry directly', { resourceEntryId: directResourceEntryId });
+    const entry = await fetchResourceEntryById(client, directResourceEntryId, log);
 
-    // Fetch the ResourceEntry object
-    const resourceEntry = await client.getObject({
-      id: resourceId,
-      options: { showContent: true },
+    // Verify it matches the requested domain and resource
+    if (entry && entry.domain === domain && entry.resource === resource) {
+      return entry;
+    }
+    log.warn('ResourceEntry domain/resource mismatch', {
+      expected: `${domain}${resource}`,
+      found: entry ? entry.domain + entry.resource : null,
     });
+    // Continue to try table lookup
+  }
 
-    if (!resourceEntry.data || !resourceEntry.data.content || 'fields' in resourceEntry.data.content === false) {
-      console.error('[Sui] ResourceEntry not found or invalid');
-      return null;
-    }
+  // Find the resources table inside the registry
+  // (a missing registry is a configuration error, not an unregistered resource)
+  const registry = await client.getObject({
+    id: registryId,
+    options: { showContent: true },
+  });
 
-    const fields = (resourceEntry.data.content as any).fields;
-
-    // Helper to extract string
-    const extractString = (field: any): string => {
-      if (typeof field === 'string') return field;
-      if (field && typeof field === 'object' && 'bytes' in field) {
-        if (typeof field.bytes === 'string') {
-          try {
-            return Buffer.from(field.bytes, 'base64').toString('utf8');
-          } catch {
-            return field.bytes;
-          }
-        }
-        return String(field.bytes);
-      }
-      return String(field || '');
-    };
-
-    return {
-      domain: extractString(fields.domain),
-      resource: extractString(fields.resource),
-      walrus_cid: extractString(fields.walrus_cid),
-      seal_policy: extractString(fields.seal_policy),
-      price: String(fields.price || '0'),
-      receiver: String(fields.receiver || ''),
-      max_uses: Number(fields.max_uses || 0),
-      validity_duration: Number(fields.validity_duration || 0),
-      owner: String(fields.owner || ''),
-      created_at: Number(fields.created_at || 0),
-      active: Boolean(fields.active !== false),
-      resource_id: resourceId, // Include the resource object ID
-    };
-  } catch (error) {
-    console.error('[Sui] Error fetching ResourceEntry:', error);
+  if (!registry.data || !registry.data.content || 'fields' in registry.data.content === false) {
+    throw new Error(`Registry ${registryId} not found or invalid`);
+  }
+
+  const registryFields = (registry.data.content as any).fields;
+  const resourcesTableId: string | undefined = registryFields.resources?.fields?.id?.id;
+  if (!resourcesTableId) {
+    throw new Error(`Registry ${registryId} has no resources table`);
+  }
+
+  // domain -> Table<String, ID>
+  const domainField = await fetchTableEntryByString(client, resourcesTableId, domain, log);
+  const domainTableId: string | undefined = domainField?.value?.fields?.id?.id;
+  if (!domainTableId) {
+    log.debug('Domain not found in registry', { domain });
+    return null;
+  }
+
+  // resource path -> ResourceEntry ID
+  const resourceField = await fetchTableEntryByString(client, domainTableId, resource, log);
+  const resourceId = resourceField ? String(resourceField.value) : null;
+  if (!resourceId) {
+    log.debug('Resource not found in registry', { domain, resource });
     return null;
   }
-}
\ No newline at end of file
+
+  return await fetchResourceEntryById(client, resourceId, log);
+}
+
+/**
+ * Fetch and parse a ResourceEntry object by ID
+ */
+export async function fetchResourceEntryById(
+  client: SuiClient,
+  resourceId: string,
+  log: PaywallLogger = SILENT_LOGGER
+): Promise<ResourceEntry | null> {
+  const resourceEntry = await client.getObject({
+    id: resourceId,
+    options: { showContent: true },
+  });
+
+  const code = resourceEntry.error?.code;
+  if (code === 'notExists' || code === 'deleted') {
+    log.warn('ResourceEntry not found', { resourceEntryId: resourceId });
+    return null;
+  }
+  if (!resourceEntry.data || !resourceEntry.data.content || 'fields' in resourceEntry.data.content === false) {
+    throw new Error(`ResourceEntry ${resourceId} could not be read (${code || 'no content'})`);
+  }
+
+  return parseResourceEntry((resourceEntry.data.content as any).fields, resourceId);
+}
@@ -1,5 +1,6 @@
 // Input validation
 
+import { bytesToHex, randomBytes } from '@noble/hashes/utils';
 import { PaywallOptions } from '../types';
 
 /**
@@ -40,10 +41,10 @@ export function isValidSuiAddress(address: string): boolean {
 }
 
 /**
- * Generates a unique nonce
+ * Generates an unpredictable nonce (128 bits from crypto.getRandomValues)
  */
 export function generateNonce(): string {
-  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+  return bytesToHex(randomBytes(16));
 }
 
 /**
@@ -0,0 +1,38 @@
+// Walrus blob fetching
+// Kept apart from decryption so serving encrypted blobs does not load Seal
+
+import { NETWORK_PROFILES } from '../config/networks';
+import { PaywallLogger, SILENT_LOGGER } from './logger';
+
+// Walrus aggregators default to the testnet profile
+const DEFAULT_AGGREGATORS = NETWORK_PROFILES.testnet.walrusAggregators || [];
+
+/**
+ * Fetch encrypted blob from Walrus (without decryption)
+ * Tries each aggregator until one succeeds
+ */
+export async function fetchEncryptedBlob(
+  walrusCid: string,
+  aggregators: string[] = DEFAULT_AGGREGATORS,
+  log: PaywallLogger = SILENT_LOGGER
+): Promise<ArrayBuffer> {
+  for (const aggregator of aggregators) {
+    try {
+      const url = `${aggregator}/v1/blobs/${walrusCid}`;
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 10000);
+
+      const response = await fetch(url, { signal: controller.signal });
+      clearTimeout(timeout);
+
+      if (response.ok) {
+        return await response.arrayBuffer();
+      }
+    } catch (err) {
+      log.warn('Failed to fetch blob from Walrus aggregator', { aggregator, error: err });
+      continue;
+    }
+  }
+
+  throw new Error(`Failed to fetch encrypted blob from Walrus (CID: ${walrusCid})`);
+}
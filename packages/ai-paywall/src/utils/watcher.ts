@@ -0,0 +1,327 @@
+// Event-driven cache invalidation
+// Polls paywall and registry events and keeps the middleware cache in step with the chain
+
+import { promises as fs } from 'fs';
+import { EventId, SuiClient, SuiEvent } from '@mysten/sui.js/client';
+import { normalizeSuiAddress } from '@mysten/sui.js/utils';
+import { resolveSuiClient } from './sui';
+import { PaywallCache } from './cache';
+import { LoggerLike, LogLevel, PaywallLogger } from './logger';
+import { NetworkOption, resolveNetworkConfig } from '../config/networks';
+
+/**
+ * Default poll interval (2 seconds)
+ */
+const DEFAULT_INTERVAL_MS = 2000;
+
+/**
+ * Default number of events fetched per page
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Modules whose events are watched
+ */
+const WATCHED_MODULES = ['paywall', 'registry'] as const;
+
+/**
+ * Persists the event cursor of each watched module so the watcher
+ * resumes where it stopped after a restart
+ */
+export interface CursorStore {
+  load(key: string): Promise<EventId | null>;
+  save(key: string, cursor: EventId): Promise<void>;
+}
+
+/**
+ * In-memory cursor store (cursors are lost on restart)
+ */
+export class MemoryCursorStore implements CursorStore {
+  private cursors = new Map<string, EventId>();
+
+  async load(key: string): Promise<EventId | null> {
+    return this.cursors.get(key) || null;
+  }
+
+  async save(key: string, cursor: EventId): Promise<void> {
+    this.cursors.set(key, cursor);
+  }
+}
+
+/**
+ * JSON file cursor store
+ */
+export class FileCursorStore implements CursorStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(key: string): Promise<EventId | null> {
+    const cursors = await this.readAll();
+    return cursors[key] || null;
+  }
+
+  async save(key: string, cursor: EventId): Promise<void> {
+    const cursors = await this.readAll();
+    cursors[key] = cursor;
+    await fs.writeFile(this.filePath, JSON.stringify(cursors, null, 2));
+  }
+
+  private async readAll(): Promise<Record<string, EventId>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Options for the event watcher
+ */
+export interface EventWatcherOptions {
+  /** Cache to update (the same instance passed to paywall({ cache })) */
+  cache: PaywallCache;
+  /** Where cursors are persisted (default: in-memory) */
+  cursorStore?: CursorStore;
+  /** Poll interval in ms (default: 2 seconds) */
+  intervalMs?: number;
+  /** Events fetched per page (default: 50) */
+  pageSize?: number;
+  /** Network profile to watch (default: 'testnet') */
+  network?: NetworkOption;
+  /** Package to watch (default: from the network profile) */
+  packageId?: string;
+  /** Sui RPC URL (default: from the network profile) */
+  rpcUrl?: string;
+  /** Existing client to poll with (takes precedence over rpcUrl) */
+  suiClient?: SuiClient;
+  /**
+   * Domains whose passes are cached (default: any)
+   * PassPurchased events for other domains are skipped before any RPC call
+   */
+  domains?: string[];
+  /**
+   * Logger for poll failures: a pino/winston-compatible instance, a PaywallLogger,
+   * or a console log level (default: console at 'info', 'silent' when NODE_ENV=production)
+   */
+  logger?: LoggerLike | LogLevel | PaywallLogger;
+}
+
+/**
+ * Background watcher that applies paywall/registry events to the cache
+ *
+ * - PassPurchased: caches the new pass so the first request skips the RPC
+ *   (only for `domains` when set: each cached pass costs a transaction lookup)
+ * - PassConsumed: updates remaining uses on the cached pass
+ * - ResourceDeactivated / ResourceActivated: flips `active` on the cached entry
+ * - ResourceUpdated: evicts the cached entry
+ *
+ * With no saved cursor the watcher starts from (and applies) the latest event, not genesis.
+ */
+export class PaywallEventWatcher {
+  private readonly cache: PaywallCache;
+  private readonly cursorStore: CursorStore;
+  private readonly intervalMs: number;
+  private readonly pageSize: number;
+  private readonly packageId: string;
+  private readonly client: SuiClient;
+  private readonly logger: PaywallLogger;
+  private readonly domains: string[] | null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(options: EventWatcherOptions) {
+    this.cache = options.cache;
+    this.cursorStore = options.cursorStore || new MemoryCursorStore();
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const network = resolveNetworkConfig(options.network);
+    this.packageId = options.packageId || network.packageId;
+    this.client = resolveSuiClient(options.suiClient || options.rpcUrl || network.rpcUrl);
+    this.domains = options.domains || null;
+    this.logger = (
+      options.logger instanceof PaywallLogger ? options.logger : new PaywallLogger(options.logger)
+    ).child({ component: 'watcher' });
+  }
+
+  /**
+   * Start polling in the background
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetch and apply all new events once
+   */
+  async poll(): Promise<void> {
+    for (const module of WATCHED_MODULES) {
+      await this.pollModule(module);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error('Error polling events', { error });
+      }
+      if (this.running) {
+        this.schedule(this.intervalMs);
+      }
+    }, delayMs);
+    // Don't keep the process alive just for the watcher
+    this.timer.unref();
+  }
+
+  private async pollModule(module: string): Promise<void> {
+    const query = { MoveModule: { package: this.packageId, module } };
+    const cursorKey = `${this.packageId}::${module}`;
+
+    let cursor = await this.cursorStore.load(cursorKey);
+
+    if (!cursor) {
+      // First run: start from the latest event instead of replaying history
+      // (the cursor is exclusive, so that event is applied here)
+      const latest = await this.client.queryEvents({ query, order: 'descending', limit: 1 });
+      if (latest.data.length > 0) {
+        await this.applyEvent(latest.data[0]);
+        await this.cursorStore.save(cursorKey, latest.data[0].id);
+      }
+      return;
+    }
+
+    let hasNextPage = true;
+    while (hasNextPage) {
+      const page = await this.client.queryEvents({
+        query,
+        cursor,
+        order: 'ascending',
+        limit: this.pageSize,
+      });
+
+      for (const event of page.data) {
+        await this.applyEvent(event);
+      }
+
+      if (page.nextCursor) {
+        cursor = page.nextCursor;
+        await this.cursorStore.save(cursorKey, cursor);
+      }
+      hasNextPage = page.hasNextPage && page.data.length > 0;
+    }
+  }
+
+  private async applyEvent(event: SuiEvent): Promise<void> {
+    const eventName = event.type.split('::').pop();
+    const data = event.parsedJson as any;
+
+    switch (eventName) {
+      case 'PassPurchased': {
+        if (this.domains && !this.domains.includes(String(data.domain))) {
+          break;
+        }
+        const passId = await this.findCreatedPassId(event.id.txDigest, String(data.pass_id));
+        if (passId) {
+          await this.cache.storeAccessPass(passId, {
+            pass_id: Number(data.pass_id),
+            owner: String(data.owner),
+            domain: String(data.domain),
+            resource: String(data.resource),
+            remaining: Number(data.remaining),
+            expiry: Number(data.expiry),
+            nonce: String(data.nonce),
+            price_paid: String(data.price_paid),
+          });
+        }
+        break;
+      }
+      case 'PassConsumed': {
+        const passId = await this.cache.findPassId(data.pass_id);
+        const pass = passId ? await this.cache.peekAccessPass(passId) : undefined;
+        if (passId && pass) {
+          await this.cache.storeAccessPass(passId, {
+            ...pass,
+            remaining: Number(data.remaining_after),
+          });
+        }
+        break;
+      }
+      case 'ResourceDeactivated':
+      case 'ResourceActivated': {
+        const domain = String(data.domain);
+        const resource = String(data.resource);
+        const entry = await this.cache.peekResourceEntry(domain, resource);
+        if (entry) {
+          await this.cache.storeResourceEntry(domain, resource, {
+            ...entry,
+            active: eventName === 'ResourceActivated',
+          });
+        } else {
+          await this.cache.invalidateResource(domain, resource);
+        }
+        break;
+      }
+      case 'ResourceUpdated':
+      case 'ResourceRegistered':
+        await this.cache.invalidateResource(String(data.domain), String(data.resource));
+        break;
+    }
+  }
+
+  /**
+   * Events carry the pass number, not the object ID - read it from the transaction
+   * A transaction can buy several passes, so the created objects are then matched on pass_id
+   */
+  private async findCreatedPassId(txDigest: string, passNumber: string): Promise<string | null> {
+    const tx = await this.client.getTransactionBlock({
+      digest: txDigest,
+      options: { showObjectChanges: true },
+    });
+
+    const passType = `${normalizeSuiAddress(this.packageId)}::paywall::AccessPass`;
+    const createdIds: string[] = [];
+    for (const change of tx.objectChanges || []) {
+      if (change.type === 'created' && change.objectType === passType) {
+        createdIds.push(change.objectId);
+      }
+    }
+    if (createdIds.length === 0) {
+      return null;
+    }
+    // One pass bought: it is the one the event is about
+    if (createdIds.length === 1) {
+      return createdIds[0];
+    }
+
+    const objects = await this.client.multiGetObjects({
+      ids: createdIds,
+      options: { showContent: true },
+    });
+    for (const object of objects) {
+      const content = object.data?.content;
+      if (content && 'fields' in content && String((content.fields as any).pass_id) === passNumber) {
+        return object.data!.objectId;
+      }
+    }
+    return null;
+  }
+}
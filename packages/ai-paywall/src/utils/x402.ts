@@ -0,0 +1,208 @@
+// x402 wire format
+// `accepts` payment requirements in 402 responses, base64 JSON in the
+// X-PAYMENT request header and X-PAYMENT-RESPONSE response header
+
+import { fromB64, toB64 } from '@mysten/sui.js/utils';
+import { NetworkOption } from '../config/networks';
+import { InvalidPaymentPayloadError } from '../errors';
+import { SignedRequest } from './signature';
+import type {
+  FacilitatorRequest,
+  FacilitatorVerifyResponse,
+  FacilitatorSettleResponse,
+} from '../facilitator';
+
+/**
+ * x402 protocol version emitted and accepted
+ */
+export const X402_VERSION = 1;
+
+/**
+ * Payment scheme: pay exactly `maxAmountRequired` to `payTo`
+ */
+export const SUI_EXACT_SCHEME = 'exact';
+
+/**
+ * Coin type prices are paid in
+ */
+export const SUI_COIN_TYPE = '0x2::sui::SUI';
+
+/**
+ * One entry of the `accepts` array in a 402 response
+ */
+export interface X402PaymentRequirements {
+  scheme: typeof SUI_EXACT_SCHEME;
+  /** x402 network name, e.g. `sui-testnet` */
+  network: string;
+  /** Price in MIST */
+  maxAmountRequired: string;
+  /** URL of the protected resource */
+  resource: string;
+  description: string;
+  mimeType: string;
+  /** Receiver address */
+  payTo: string;
+  maxTimeoutSeconds: number;
+  /** Coin type */
+  asset: string;
+  /** Everything needed to build the purchase_pass call */
+  extra: {
+    packageId: string;
+    passCounterId: string;
+    domain: string;
+    resource: string;
+    /** Challenge nonce to embed in the pass */
+    nonce?: string;
+    maxUses?: number;
+    validityMs?: number;
+    consumptionMode?: 'client' | 'relay';
+  };
+}
+
+/**
+ * Proof of an existing AccessPass (the legacy x-* headers as JSON)
+ */
+export interface SuiPassProofPayload {
+  passId: string;
+  signer: string;
+  /** Personal-message signature over createSignMessage(...) */
+  signature: string;
+  timestamp: string;
+  /** Request the signature must cover, as received by the paywall (set by the middleware) */
+  request?: SignedRequest;
+  /** Relay mode: pre-signed consume_pass transaction and its signature */
+  consumeTx?: string;
+  consumeSig?: string;
+}
+
+/**
+ * Signed, unexecuted purchase_pass transaction
+ */
+export interface SuiSignedTransactionPayload {
+  /** Base64 transaction bytes */
+  transaction: string;
+  /** Base64 serialized signature */
+  signature: string;
+}
+
+/**
+ * Decoded X-PAYMENT header
+ */
+export interface X402PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: SuiPassProofPayload | SuiSignedTransactionPayload;
+}
+
+/**
+ * Decoded X-PAYMENT-RESPONSE header
+ */
+export interface X402SettlementResponse {
+  success: boolean;
+  /** Digest of the purchase or consume_pass transaction, if one was submitted */
+  transaction: string;
+  network: string;
+  /** Address that paid */
+  payer: string;
+  errorReason?: string;
+}
+
+/**
+ * x402 network name for a network option (custom profiles use their base network)
+ */
+export function x402NetworkName(network: NetworkOption = 'testnet'): string {
+  const base = typeof network === 'string' ? network : network.extends;
+  return `sui-${base || 'custom'}`;
+}
+
+/**
+ * Whether a payload carries a signed purchase transaction rather than a pass proof
+ */
+export function isSignedTransactionPayload(
+  payload: X402PaymentPayload['payload']
+): payload is SuiSignedTransactionPayload {
+  return typeof (payload as SuiSignedTransactionPayload).transaction === 'string';
+}
+
+/**
+ * Decode and check an X-PAYMENT header
+ * @throws InvalidPaymentPayloadError if the header is malformed or for another scheme/network
+ */
+export function decodePaymentHeader(header: string, network: string): X402PaymentPayload {
+  let decoded: X402PaymentPayload;
+  try {
+    decoded = JSON.parse(new TextDecoder().decode(fromB64(header)));
+  } catch {
+    throw new InvalidPaymentPayloadError('X-PAYMENT header is not base64-encoded JSON');
+  }
+
+  if (!decoded || typeof decoded !== 'object' || !decoded.payload || typeof decoded.payload !== 'object') {
+    throw new InvalidPaymentPayloadError('X-PAYMENT header has no payload');
+  }
+  if (decoded.x402Version !== X402_VERSION) {
+    throw new InvalidPaymentPayloadError(`Unsupported x402Version: ${decoded.x402Version}`);
+  }
+  if (decoded.scheme !== SUI_EXACT_SCHEME || decoded.network !== network) {
+    throw new InvalidPaymentPayloadError(
+      `Unsupported payment scheme ${decoded.scheme} on ${decoded.network} (expected ${SUI_EXACT_SCHEME} on ${network})`
+    );
+  }
+
+  const payload = decoded.payload as Partial<SuiPassProofPayload & SuiSignedTransactionPayload>;
+  const complete = isSignedTransactionPayload(decoded.payload)
+    ? typeof payload.signature === 'string'
+    : [payload.passId, payload.signer, payload.signature, payload.timestamp].every(
+        (field) => typeof field === 'string' && field.length > 0
+      );
+  if (!complete) {
+    throw new InvalidPaymentPayloadError('X-PAYMENT payload is incomplete');
+  }
+
+  return decoded;
+}
+
+/**
+ * Encode an X-PAYMENT header (used by clients)
+ */
+export function encodePaymentHeader(payment: X402PaymentPayload): string {
+  return toB64(new TextEncoder().encode(JSON.stringify(payment)));
+}
+
+/**
+ * Encode an X-PAYMENT-RESPONSE header
+ */
+export function encodePaymentResponse(response: X402SettlementResponse): string {
+  return toB64(new TextEncoder().encode(JSON.stringify(response)));
+}
+
+/**
+ * Decode an X-PAYMENT-RESPONSE header
+ */
+export function decodePaymentResponse(header: string): X402SettlementResponse {
+  return JSON.parse(new TextDecoder().decode(fromB64(header)));
+}
+
+/**
+ * Call a facilitator endpoint (used by the middleware's `facilitatorUrl` mode)
+ * Kept apart from the Facilitator class so servers using one load no Sui client code
+ * @param headers - Sent with the request, e.g. credentials checked by the facilitator's `authorize` hook
+ */
+export async function callFacilitator<T extends FacilitatorVerifyResponse | FacilitatorSettleResponse>(
+  facilitatorUrl: string,
+  endpoint: 'verify' | 'settle',
+  request: FacilitatorRequest,
+  timeoutMs: number = 30000,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const response = await fetch(`${facilitatorUrl.replace(/\/+$/, '')}/${endpoint}`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`Facilitator /${endpoint} returned ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as T;
+}
@@ -0,0 +1,357 @@
+// Payment verification
+// Checks a presented AccessPass against payment terms, settles signed purchases
+// and consumes passes. Shared by the paywall core and the facilitator.
+
+import { SuiClient } from "@mysten/sui.js/client";
+import { SuiClient as SealSuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui.js/utils";
+import { AccessPass } from "./types";
+import {
+  InvalidPassError,
+  ExpiredPassError,
+  NoRemainingUsesError,
+  SignatureVerificationError,
+  UnderpaidPassError,
+} from "./errors";
+import {
+  fetchAccessPass,
+  fetchPassPurchase,
+  isAccessPassValid,
+  matchesAccessPass,
+} from "./utils/sui";
+import { verifySignature, verifyOwner, SignedRequest } from "./utils/signature";
+import { ReplayGuard, DEFAULT_CLOCK_SKEW_MS } from "./utils/replay";
+import { ConsumptionResult, submitConsumeTransaction } from "./utils/consumption";
+import { PurchaseSettlement, submitPurchaseTransaction } from "./utils/settlement";
+import { SuiSignedTransactionPayload } from "./utils/x402";
+import { PaywallCache } from "./utils/cache";
+import { PaywallLogger } from "./utils/logger";
+
+/**
+ * What a pass must satisfy for one request
+ */
+export interface PaymentTerms {
+  domain: string;
+  resource: string;
+  /** Minimum price paid, in MIST */
+  priceInMist: string;
+  receiver: string;
+  /** Maximum uses a pass may carry */
+  maxUses?: number;
+  /** Maximum validity a pass may carry in ms */
+  validityMs?: number;
+  /**
+   * Relay mode: every request consumes a use on-chain. A request that settles a
+   * purchase cannot, so it counts as the pass's first use (the pass may carry
+   * at most maxUses - 1)
+   */
+  relay?: boolean;
+}
+
+/**
+ * Most uses a pass may carry under the terms
+ * In relay mode a pass bought by the request it pays for carries one fewer,
+ * since that request is its first use
+ */
+export function maxPassUses(terms: PaymentTerms, settled: boolean): number | undefined {
+  return terms.maxUses !== undefined && terms.relay && settled ? terms.maxUses - 1 : terms.maxUses;
+}
+
+/**
+ * Credentials presented with a request (x-* headers or X-PAYMENT)
+ */
+export interface PaymentProof {
+  passId: string;
+  signer: string;
+  /** x-sig, or the purchase transaction signature when settled */
+  signature: string;
+  timestamp?: string;
+  /** Request the x-sig signature must be bound to */
+  request?: SignedRequest;
+  consumeTx?: string;
+  consumeSig?: string;
+  /** Purchase settled by this request (the transaction signature proves the signer) */
+  settlement?: PurchaseSettlement;
+  /** Came in an X-PAYMENT header (answer with X-PAYMENT-RESPONSE) */
+  x402: boolean;
+}
+
+/**
+ * Chain access and guards used for verification
+ */
+export interface PassVerifierOptions {
+  packageId: string;
+  suiClient: SuiClient;
+  sealSuiClient: SealSuiClient;
+  replayGuard: ReplayGuard | null;
+  cache: PaywallCache | null;
+}
+
+/**
+ * Verifies AccessPasses against payment terms
+ */
+export class PassVerifier {
+  /** Records settled purchases and relayed consumptions, even when replay protection is disabled */
+  private readonly settlements: ReplayGuard;
+
+  constructor(private readonly options: PassVerifierOptions) {
+    this.settlements = options.replayGuard || new ReplayGuard();
+  }
+
+  /**
+   * Check a presented pass against the terms
+   *
+   * With `claim` (default), the signature and nonce are recorded by the replay
+   * guard, so the same proof is accepted only once. Without it, nothing is recorded.
+   * @returns The verified AccessPass
+   */
+  async verify(
+    proof: PaymentProof,
+    terms: PaymentTerms,
+    log: PaywallLogger,
+    claim: boolean = true
+  ): Promise<AccessPass> {
+    const options = this.options;
+    const { passId, signer, signature, timestamp } = proof;
+
+    // Fetch AccessPass from Sui
+    let accessPass: AccessPass | null = null;
+    try {
+      const loadAccessPass = () =>
+        fetchAccessPass(passId, options.packageId, options.suiClient, log);
+      accessPass = options.cache
+        ? await options.cache.getAccessPass(passId, loadAccessPass)
+        : await loadAccessPass();
+      log.debug("AccessPass fetched", {
+        found: !!accessPass,
+        owner: accessPass?.owner,
+        remaining: accessPass?.remaining,
+        expiry: accessPass?.expiry,
+      });
+    } catch (error: any) {
+      throw new InvalidPassError(
+        `Failed to fetch AccessPass: ${error.message || "Unknown error"}`
+      );
+    }
+
+    if (!accessPass) {
+      throw new InvalidPassError("AccessPass not found on Sui");
+    }
+
+    // Verify owner matches signer
+    if (!verifyOwner(accessPass.owner, signer)) {
+      throw new InvalidPassError("Signer does not own this AccessPass");
+    }
+
+    // Verify domain and resource match
+    if (!matchesAccessPass(accessPass, terms.domain, terms.resource, log)) {
+      throw new InvalidPassError("AccessPass domain or resource does not match");
+    }
+
+    // Verify pass is valid (not expired, has remaining uses)
+    if (!isAccessPassValid(accessPass)) {
+      if (accessPass.remaining <= 0) {
+        throw new NoRemainingUsesError();
+      }
+      if (accessPass.expiry > 0 && Date.now() >= accessPass.expiry) {
+        throw new ExpiredPassError();
+      }
+      throw new InvalidPassError("AccessPass is not valid");
+    }
+
+    // Route terms: reject passes bought with more uses or a longer validity than offered
+    const maxUses = maxPassUses(terms, !!proof.settlement);
+    if (maxUses !== undefined && accessPass.remaining > maxUses) {
+      throw new InvalidPassError("AccessPass carries more uses than this route allows");
+    }
+    if (
+      terms.validityMs &&
+      (accessPass.expiry === 0 ||
+        accessPass.expiry - Date.now() >
+          terms.validityMs +
+            (options.replayGuard?.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS))
+    ) {
+      throw new InvalidPassError("AccessPass validity exceeds what this route allows");
+    }
+
+    // Payment terms: the pass must have been bought for at least the current price
+    if (BigInt(accessPass.price_paid || 0) < BigInt(terms.priceInMist)) {
+      throw new UnderpaidPassError(
+        `AccessPass paid ${accessPass.price_paid} MIST, price is ${terms.priceInMist} MIST`
+      );
+    }
+
+    // Verify signature (throws SignatureVerificationError with a reason code)
+    // A purchase settled by this request was signed by the pass owner already
+    if (!proof.settlement) {
+      try {
+        const scheme = await verifySignature(
+          passId,
+          terms.domain,
+          terms.resource,
+          timestamp!,
+          signer,
+          signature,
+          options.sealSuiClient,
+          options.replayGuard?.clockSkewMs,
+          proof.request
+        );
+        log.debug("Signature verified", { scheme });
+      } catch (error: any) {
+        throw error instanceof SignatureVerificationError
+          ? error
+          : new SignatureVerificationError();
+      }
+
+      // Payment terms: the coin must have gone to this paywall's receiver
+      // (checked after the signature so unsigned requests cannot trigger tx lookups;
+      // settled purchases had their receiver checked before submission)
+      await this.verifyPurchase(passId, accessPass, terms, log);
+    } else if (BigInt(proof.settlement.pricePaid) < BigInt(terms.priceInMist)) {
+      throw new UnderpaidPassError(
+        `AccessPass purchase paid ${proof.settlement.pricePaid} MIST, price is ${terms.priceInMist} MIST`
+      );
+    }
+
+    // Reject replayed signatures and nonces reused across passes
+    if (claim && options.replayGuard) {
+      await options.replayGuard.bindNonce(
+        accessPass.nonce,
+        passId,
+        terms.domain,
+        terms.resource
+      );
+      await options.replayGuard.claimSignature(signature, passId);
+      log.debug("Replay checks passed");
+    }
+
+    return accessPass;
+  }
+
+  /**
+   * Submit a signed purchase_pass transaction
+   * The created pass still has to be checked with verify()
+   */
+  async settlePurchase(
+    payload: SuiSignedTransactionPayload,
+    terms: PaymentTerms,
+    log: PaywallLogger
+  ): Promise<PaymentProof> {
+    const options = this.options;
+
+    log.debug("Submitting purchase_pass transaction");
+    const settlement = await submitPurchaseTransaction(
+      payload.transaction,
+      payload.signature,
+      {
+        packageId: options.packageId,
+        domain: terms.domain,
+        resource: terms.resource,
+        receiver: terms.receiver,
+        maxUses: maxPassUses(terms, true),
+      },
+      options.suiClient
+    );
+    await this.settlements.claimSettlement(settlement.digest, settlement.passId);
+    log.info("Purchase settled", {
+      digest: settlement.digest,
+      passId: settlement.passId,
+      pricePaid: settlement.pricePaid,
+    });
+
+    return {
+      passId: settlement.passId,
+      signer: settlement.sender,
+      signature: payload.signature,
+      settlement,
+      x402: true,
+    };
+  }
+
+  /**
+   * Submit the pre-signed consume_pass transaction of a proof (relay mode)
+   */
+  async consume(
+    proof: PaymentProof,
+    accessPass: AccessPass,
+    log: PaywallLogger
+  ): Promise<ConsumptionResult> {
+    const options = this.options;
+
+    log.debug("Submitting consume_pass transaction");
+    const consumption = await submitConsumeTransaction(
+      proof.consumeTx!,
+      proof.consumeSig!,
+      { packageId: options.packageId, passId: proof.passId, sender: proof.signer },
+      options.suiClient
+    );
+    await this.settlements.claimConsumption(consumption.digest, proof.passId);
+    log.debug("Pass consumed", {
+      digest: consumption.digest,
+      remaining: consumption.remainingAfter,
+    });
+
+    // Keep the cached pass in step with the chain
+    if (options.cache && consumption.remainingAfter !== undefined) {
+      await options.cache.storeAccessPass(proof.passId, {
+        ...accessPass,
+        remaining: consumption.remainingAfter,
+      });
+    }
+    return consumption;
+  }
+
+  /**
+   * Check that the purchase_pass call which created the pass paid the expected
+   * receiver at least the price
+   * @throws UnderpaidPassError if the coin went to another address or fell short
+   */
+  private async verifyPurchase(
+    passId: string,
+    accessPass: AccessPass,
+    terms: PaymentTerms,
+    log: PaywallLogger
+  ): Promise<void> {
+    const options = this.options;
+
+    let purchase;
+    try {
+      const loadPurchase = () =>
+        fetchPassPurchase(
+          passId,
+          accessPass.pass_id,
+          options.packageId,
+          options.suiClient
+        );
+      purchase = options.cache
+        ? await options.cache.getPassPurchase(passId, loadPurchase)
+        : await loadPurchase();
+    } catch (error: any) {
+      throw new InvalidPassError(
+        `Failed to fetch AccessPass purchase: ${error.message || "Unknown error"}`
+      );
+    }
+
+    if (!purchase) {
+      throw new InvalidPassError("AccessPass purchase transaction not found");
+    }
+
+    if (
+      normalizeSuiAddress(purchase.receiver) !==
+      normalizeSuiAddress(terms.receiver)
+    ) {
+      throw new UnderpaidPassError(
+        "AccessPass was paid to a different receiver"
+      );
+    }
+    if (BigInt(purchase.pricePaid) < BigInt(terms.priceInMist)) {
+      throw new UnderpaidPassError(
+        `AccessPass purchase paid ${purchase.pricePaid} MIST, price is ${terms.priceInMist} MIST`
+      );
+    }
+    log.debug("Purchase verified", {
+      digest: purchase.digest,
+      pricePaid: purchase.pricePaid,
+    });
+  }
+}
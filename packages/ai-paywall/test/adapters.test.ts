@@ -0,0 +1,386 @@
+// The same scenarios run through every framework adapter, which must agree on the outcome
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { paywall } from '../src/middleware';
+import { fastifyPaywall } from '../src/adapters/fastify';
+import { koaPaywall } from '../src/adapters/koa';
+import { honoPaywall } from '../src/adapters/hono';
+import { withPaywall } from '../src/adapters/next';
+import { PaywallCore } from '../src/core';
+import { PaywallContext, PaywallOptions } from '../src/types';
+import { createSignedRequest } from '../src/utils/signature';
+import { FakeChain, DOMAIN, PRICE, RECEIVER, signAccess } from './helpers/chain';
+
+/**
+ * Request as the client sent it
+ */
+interface TestRequest {
+  method: string;
+  path: string;
+  /** Query string without '?' */
+  query?: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * What the client got back, and whether the route handler ran
+ */
+interface TestResponse {
+  status: number;
+  body: any;
+  headers: Record<string, string>;
+  handled: boolean;
+}
+
+type Handle = (request: TestRequest) => Promise<TestResponse>;
+
+const url = (request: TestRequest) =>
+  `https://${DOMAIN}${request.path}${request.query ? `?${request.query}` : ''}`;
+
+const fetchRequest = (request: TestRequest) =>
+  new Request(url(request), {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+  });
+
+/**
+ * Drive each adapter the way its framework would (raw body parsers included)
+ */
+const adapters: Record<string, (options: PaywallOptions) => Handle> = {
+  express: (options) => {
+    const middleware = paywall(options);
+    return async (request) => {
+      const response: TestResponse = { status: 200, body: undefined, headers: {}, handled: false };
+      const res = {
+        headersSent: false,
+        setHeader: (name: string, value: string) => {
+          response.headers[name.toLowerCase()] = value;
+        },
+        status(code: number) {
+          response.status = code;
+          return this;
+        },
+        json(body: unknown) {
+          response.body = body;
+          this.headersSent = true;
+        },
+        send(body: unknown) {
+          response.body = body;
+          this.headersSent = true;
+        },
+      };
+      const req = {
+        method: request.method,
+        baseUrl: '',
+        path: request.path,
+        originalUrl: url(request).slice(`https://${DOMAIN}`.length),
+        headers: { ...request.headers },
+        // express.raw()
+        body: request.body !== undefined ? Buffer.from(request.body) : undefined,
+      } as any;
+      await middleware(req, res as any, () => {
+        response.handled = true;
+      });
+      return response;
+    };
+  },
+
+  fastify: (options) => {
+    const hook = fastifyPaywall(options);
+    return async (request) => {
+      const response: TestResponse = { status: 200, body: undefined, headers: {}, handled: false };
+      let sent = false;
+      const reply = {
+        code(code: number) {
+          response.status = code;
+          return reply;
+        },
+        header(name: string, value: string) {
+          response.headers[name.toLowerCase()] = value;
+          return reply;
+        },
+        type: () => reply,
+        send(body?: unknown) {
+          response.body = body;
+          sent = true;
+          return reply;
+        },
+      };
+      await hook(
+        {
+          method: request.method,
+          url: url(request).slice(`https://${DOMAIN}`.length),
+          headers: { ...request.headers },
+          // fastify-raw-body
+          rawBody: request.body,
+        },
+        reply
+      );
+      response.handled = !sent;
+      return response;
+    };
+  },
+
+  koa: (options) => {
+    const middleware = koaPaywall(options);
+    return async (request) => {
+      const response: TestResponse = { status: 200, body: undefined, headers: {}, handled: false };
+      const ctx = {
+        method: request.method,
+        path: request.path,
+        querystring: request.query || '',
+        headers: { ...request.headers },
+        // koa-bodyparser
+        request: { rawBody: request.body },
+        status: 404,
+        body: undefined as unknown,
+        type: '',
+        state: {} as { paywall?: PaywallContext },
+        set: (name: string, value: string) => {
+          response.headers[name.toLowerCase()] = value;
+        },
+      };
+      await middleware(ctx, async () => {
+        response.handled = true;
+        ctx.status = 200;
+      });
+      response.status = ctx.status;
+      response.body = ctx.body;
+      return response;
+    };
+  },
+
+  hono: (options) => {
+    const middleware = honoPaywall(options);
+    return async (request) => {
+      const headers: Record<string, string> = {};
+      let handled = false;
+      const raw = fetchRequest(request);
+      const result = await middleware(
+        {
+          req: { method: request.method, path: request.path, url: raw.url, raw },
+          header: (name, value) => {
+            headers[name.toLowerCase()] = value;
+          },
+          set: () => undefined,
+        },
+        async () => {
+          handled = true;
+        }
+      );
+      if (!result) {
+        return { status: 200, body: undefined, headers, handled };
+      }
+      return readResponse(result, handled);
+    };
+  },
+
+  next: (options) => {
+    let handled = false;
+    const handler = withPaywall(async () => {
+      handled = true;
+      return new Response('ok');
+    }, options);
+    return async (request) => {
+      handled = false;
+      const response = await handler(fetchRequest(request), {});
+      return readResponse(response, handled);
+    };
+  },
+};
+
+async function readResponse(response: Response, handled: boolean): Promise<TestResponse> {
+  const text = await response.text();
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  return {
+    status: response.status,
+    body: headers['content-type'] === 'application/json' ? JSON.parse(text) : text,
+    headers,
+    handled,
+  };
+}
+
+for (const [name, createAdapter] of Object.entries(adapters)) {
+  describe(`${name} adapter`, () => {
+    const setup = () => {
+      const chain = new FakeChain();
+      const keypair = new Ed25519Keypair();
+      const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+      const handle = createAdapter({
+        price: PRICE,
+        receiver: RECEIVER,
+        domain: DOMAIN,
+        suiClient: chain.suiClient,
+        sealSuiClient: chain.sealSuiClient,
+        logger: 'silent',
+      });
+      return { keypair, passId, handle };
+    };
+
+    test('answers an unsigned request with a 402 challenge', async () => {
+      const { handle } = setup();
+
+      const response = await handle({ method: 'GET', path: '/premium', headers: {} });
+
+      assert.equal(response.status, 402);
+      assert.equal(response.handled, false);
+      assert.equal(response.body.paymentRequired, true);
+      assert.equal(response.body.resource, '/premium');
+      assert.equal(response.body.domain, DOMAIN);
+      assert.equal(response.body.receiver, RECEIVER);
+      assert.equal(response.body.accepts.length, 1);
+    });
+
+    test('passes a signed request to the route handler', async () => {
+      const { keypair, passId, handle } = setup();
+
+      const response = await handle({
+        method: 'GET',
+        path: '/premium',
+        query: 'page=2&limit=10',
+        headers: await signAccess(keypair, passId, '/premium', createSignedRequest('GET', '?limit=10&page=2')),
+      });
+
+      assert.equal(response.status, 200);
+      assert.equal(response.handled, true);
+    });
+
+    test('passes a signed request with a body to the route handler', async () => {
+      const { keypair, passId, handle } = setup();
+      const body = JSON.stringify({ query: 'sui' });
+
+      const response = await handle({
+        method: 'POST',
+        path: '/premium',
+        headers: {
+          'content-type': 'application/json',
+          'content-length': String(Buffer.byteLength(body)),
+          ...(await signAccess(keypair, passId, '/premium', createSignedRequest('POST', '', body))),
+        },
+        body,
+      });
+
+      assert.equal(response.status, 200);
+      assert.equal(response.handled, true);
+    });
+
+    test('denies a replayed signed request with 403', async () => {
+      const { keypair, passId, handle } = setup();
+      const headers = await signAccess(keypair, passId, '/premium');
+
+      await handle({ method: 'GET', path: '/premium', headers });
+      const replayed = await handle({ method: 'GET', path: '/premium', headers });
+
+      assert.equal(replayed.status, 403);
+      assert.equal(replayed.handled, false);
+      assert.equal(replayed.body.error, 'ReplayDetectedError');
+    });
+
+    test('denies a signature made for another query string with 403', async () => {
+      const { keypair, passId, handle } = setup();
+
+      const response = await handle({
+        method: 'GET',
+        path: '/premium',
+        query: 'page=3',
+        headers: await signAccess(keypair, passId, '/premium', createSignedRequest('GET', '?page=2')),
+      });
+
+      assert.equal(response.status, 403);
+      assert.equal(response.handled, false);
+      assert.equal(response.body.error, 'SignatureVerificationError');
+      assert.equal(response.body.reason, 'INVALID_SIGNATURE');
+    });
+
+    test('denies a signature made for another body with 403', async () => {
+      const { keypair, passId, handle } = setup();
+
+      const response = await handle({
+        method: 'POST',
+        path: '/premium',
+        headers: {
+          'content-type': 'application/json',
+          'content-length': '16',
+          ...(await signAccess(keypair, passId, '/premium', createSignedRequest('POST', '', '{"query":"sui"}'))),
+        },
+        body: '{"query":"move"}',
+      });
+
+      assert.equal(response.status, 403);
+      assert.equal(response.handled, false);
+      assert.equal(response.body.reason, 'INVALID_SIGNATURE');
+    });
+
+    test('denies a pass owned by someone else with 403', async () => {
+      const { passId, handle } = setup();
+
+      const response = await handle({
+        method: 'GET',
+        path: '/premium',
+        headers: await signAccess(new Ed25519Keypair(), passId, '/premium'),
+      });
+
+      assert.equal(response.status, 403);
+      assert.equal(response.handled, false);
+      assert.equal(response.body.error, 'InvalidPassError');
+    });
+  });
+}
+
+describe('without a raw body', () => {
+  const setup = () => {
+    const chain = new FakeChain();
+    const keypair = new Ed25519Keypair();
+    const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+    const core = new PaywallCore({
+      price: PRICE,
+      receiver: RECEIVER,
+      domain: DOMAIN,
+      suiClient: chain.suiClient,
+      sealSuiClient: chain.sealSuiClient,
+      logger: 'silent',
+    });
+    return { keypair, passId, core };
+  };
+
+  for (const [label, bodyHeader] of [
+    ['content-length', { 'content-length': '15' }],
+    ['transfer-encoding', { 'transfer-encoding': 'chunked' }],
+  ] as const) {
+    test(`denies a signed request with a body (${label}) with 403`, async () => {
+      const { keypair, passId, core } = setup();
+
+      // e.g. express.json() without a verify hook: the body was parsed, the raw bytes are gone
+      const decision = await core.evaluate({
+        method: 'POST',
+        path: '/premium',
+        headers: {
+          ...bodyHeader,
+          ...(await signAccess(keypair, passId, '/premium', createSignedRequest('POST', '', '{"query":"sui"}'))),
+        },
+      });
+
+      assert.equal(decision.type === 'deny' && decision.status, 403);
+      assert.equal(decision.type === 'deny' && decision.body.reason, 'BODY_UNAVAILABLE');
+    });
+  }
+
+  test('allows a signed request without a body', async () => {
+    const { keypair, passId, core } = setup();
+
+    const decision = await core.evaluate({
+      method: 'GET',
+      path: '/premium',
+      headers: { 'content-length': '0', ...(await signAccess(keypair, passId, '/premium')) },
+    });
+
+    assert.equal(decision.type, 'allow');
+  });
+});
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Ed25519Keypair as ChallengeKeypair } from '@mysten/sui.js/keypairs/ed25519';
+import { PaywallClient } from '../src/client';
+import { PaywallClientOptions, PaymentChallenge } from '../src/types';
+import { signChallenge } from '../src/utils/challenge';
+import { FakeChain, DOMAIN, PACKAGE_ID, PASS_COUNTER_ID, PRICE, PRICE_IN_MIST, RECEIVER } from './helpers/chain';
+
+function createClient(chain: FakeChain, options: Partial<PaywallClientOptions> = {}): PaywallClient {
+  return new PaywallClient({
+    privateKey: new Ed25519Keypair().getSecretKey(),
+    suiClient: chain.suiClient,
+    sealSuiClient: chain.sealSuiClient,
+    passSyncIntervalMs: 0,
+    logger: 'silent',
+    ...options,
+  });
+}
+
+/**
+ * Unsigned 402 challenge for DOMAIN/premium at PRICE to RECEIVER
+ */
+function challengeFor(fields: Partial<PaymentChallenge> = {}): PaymentChallenge {
+  return {
+    status: 402,
+    paymentRequired: true,
+    price: PRICE,
+    priceInMist: PRICE_IN_MIST,
+    receiver: RECEIVER,
+    packageId: PACKAGE_ID,
+    treasuryId: '',
+    passCounterId: PASS_COUNTER_ID,
+    domain: DOMAIN,
+    resource: '/premium',
+    nonce: 'nonce',
+    ...fields,
+  };
+}
+
+test('unsigned challenges are refused by default', async () => {
+  const client = createClient(new FakeChain());
+
+  await assert.rejects(client.verifyChallenge(challengeFor()), { reason: 'UNSIGNED' });
+});
+
+test('challenges signed by a trusted key are accepted', async () => {
+  const keypair = new ChallengeKeypair();
+  const client = createClient(new FakeChain(), { trustedChallengeSigners: [keypair.toSuiAddress()] });
+
+  const challenge = await signChallenge(challengeFor({ expiresAt: Date.now() + 60_000 }), keypair);
+
+  await client.verifyChallenge(challenge);
+});
+
+test('unsigned challenges for a registered resource must carry the registry receiver and price', async () => {
+  const chain = new FakeChain();
+  chain.registerResource('/premium');
+  const client = createClient(chain, { requireSignedChallenges: false });
+
+  await client.verifyChallenge(challengeFor());
+  await assert.rejects(client.verifyChallenge(challengeFor({ receiver: `0x${'12'.repeat(32)}` })), {
+    reason: 'RECEIVER_MISMATCH',
+  });
+  await assert.rejects(client.verifyChallenge(challengeFor({ priceInMist: (BigInt(PRICE_IN_MIST) * 10n).toString() })), {
+    reason: 'PRICE_MISMATCH',
+  });
+});
+
+test('signed challenges from a trusted key must still match the registry price', async () => {
+  const chain = new FakeChain();
+  chain.registerResource('/premium');
+  const keypair = new ChallengeKeypair();
+  const client = createClient(chain, { trustedChallengeSigners: [keypair.toSuiAddress()] });
+
+  const challenge = await signChallenge(
+    challengeFor({ priceInMist: '1', expiresAt: Date.now() + 60_000 }),
+    keypair
+  );
+
+  await assert.rejects(client.verifyChallenge(challenge), { reason: 'PRICE_MISMATCH' });
+});
@@ -0,0 +1,180 @@
+// Many requests from one PaywallClient against a paywalled server at once:
+// passes must be shared, not bought per request, and never used past `remaining`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { SuiClient } from '@mysten/sui.js/client';
+import { SuiClient as SealSuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { PaywallClient } from '../src/client';
+import { DOMAIN, PRICE, PRICE_IN_MIST, RECEIVER, REGISTRY_ID } from './helpers/chain';
+
+/**
+ * Paywalled server: answers 402 without a pass, serves each pass at most `maxUses` times
+ * and reports every use as consumed (X-Pass-Consumed)
+ */
+class PaywalledServer {
+  /** Uses served per pass ID */
+  readonly uses = new Map<string, number>();
+  /** Passes created from X-PAYMENT purchases */
+  settlements = 0;
+  /** Requests refused because their pass was used up */
+  overdrawn = 0;
+  private server: Server;
+
+  constructor(private readonly maxUses: number, private readonly x402 = false) {
+    this.server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+          res.writeHead(status, { 'content-type': 'application/json', ...headers });
+          // Slow enough for the requests to overlap
+          setTimeout(() => res.end(JSON.stringify(body)), 20);
+        };
+
+        if (req.headers['x-payment']) {
+          this.settlements += 1;
+          const passId = `0x${this.settlements.toString(16).padStart(64, 'e')}`;
+          this.uses.set(passId, 1);
+          send(200, { ok: true }, { 'X-Access-Pass-ID': passId, 'X-Pass-Consumed': 'true' });
+          return;
+        }
+
+        const passId = req.headers['x-pass-id'] as string | undefined;
+        if (!passId) {
+          send(402, this.challenge());
+          return;
+        }
+
+        const used = (this.uses.get(passId) || 0) + 1;
+        if (used > this.maxUses) {
+          this.overdrawn += 1;
+          send(403, { error: 'NoRemainingUsesError' });
+          return;
+        }
+        this.uses.set(passId, used);
+        send(200, { ok: true }, { 'X-Pass-Consumed': 'true' });
+      });
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/premium`;
+  }
+
+  stop(): void {
+    this.server.close();
+  }
+
+  private challenge() {
+    return {
+      status: 402,
+      paymentRequired: true,
+      price: PRICE,
+      priceInMist: PRICE_IN_MIST,
+      receiver: RECEIVER,
+      domain: DOMAIN,
+      resource: '/premium',
+      nonce: 'nonce',
+      maxUses: this.maxUses,
+      ...(this.x402 ? { accepts: [{ network: 'sui-testnet' }] } : {}),
+    };
+  }
+}
+
+/**
+ * Client with no passes or registered resources on-chain whose purchases are
+ * counted instead of executed (the server does not sign its challenges)
+ */
+function createClient(): { client: PaywallClient; purchases: string[] } {
+  const purchases: string[] = [];
+  const chain = {
+    queryEvents: async () => ({ data: [], hasNextPage: false, nextCursor: null }),
+    // Empty registry
+    getObject: async ({ id }: { id: string }) =>
+      id === REGISTRY_ID
+        ? { data: { content: { dataType: 'moveObject', fields: { resources: { fields: { id: { id: '0xresources' } } } } } } }
+        : { error: { code: 'notExists', object_id: id } },
+    getDynamicFieldObject: async ({ parentId }: { parentId: string }) => ({
+      error: { code: 'dynamicFieldNotFound', parent_object_id: parentId },
+    }),
+  };
+  const client = new PaywallClient({
+    privateKey: new Ed25519Keypair().getSecretKey(),
+    suiClient: chain as unknown as SuiClient,
+    sealSuiClient: chain as unknown as SealSuiClient,
+    passSyncIntervalMs: 60 * 1000,
+    requireSignedChallenges: false,
+    logger: 'silent',
+  });
+
+  const stub = client as any;
+  stub.executePurchase = async () => {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const passId = `0x${(purchases.length + 1).toString(16).padStart(64, 'a')}`;
+    purchases.push(passId);
+    return passId;
+  };
+  stub.buildPurchaseTransaction = async () => ({ bytes: 'AA==', signature: 'AA==' });
+  return { client, purchases };
+}
+
+test('parallel requests share one purchased pass', async () => {
+  const server = new PaywalledServer(10);
+  const url = await server.start();
+  const { client, purchases } = createClient();
+
+  try {
+    const responses = await Promise.all(Array.from({ length: 10 }, () => client.fetch(url)));
+
+    assert.deepEqual([...new Set(responses.map((response) => response.status))], [200]);
+    assert.equal(purchases.length, 1);
+    assert.equal(server.uses.get(purchases[0]), 10);
+    assert.equal(server.overdrawn, 0);
+  } finally {
+    client.close();
+    server.stop();
+  }
+});
+
+test('parallel requests never use a pass past its remaining uses', async () => {
+  const server = new PaywalledServer(3);
+  const url = await server.start();
+  const { client, purchases } = createClient();
+
+  try {
+    const responses = await Promise.all(Array.from({ length: 6 }, () => client.fetch(url)));
+
+    assert.deepEqual([...new Set(responses.map((response) => response.status))], [200]);
+    assert.equal(purchases.length, 2);
+    assert.equal(server.overdrawn, 0);
+    for (const passId of purchases) {
+      assert.equal(server.uses.get(passId), 3);
+    }
+  } finally {
+    client.close();
+    server.stop();
+  }
+});
+
+test('parallel requests to an x402 server pay in one request only', async () => {
+  const server = new PaywalledServer(10, true);
+  const url = await server.start();
+  const { client, purchases } = createClient();
+
+  try {
+    const responses = await Promise.all(Array.from({ length: 8 }, () => client.fetch(url)));
+
+    assert.deepEqual([...new Set(responses.map((response) => response.status))], [200]);
+    assert.equal(server.settlements, 1);
+    assert.equal(purchases.length, 0);
+    assert.equal([...server.uses.values()].reduce((sum, used) => sum + used, 0), 8);
+    assert.equal(server.overdrawn, 0);
+  } finally {
+    client.close();
+    server.stop();
+  }
+});
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { Facilitator, FacilitatorOptions, FacilitatorRequest } from '../src/facilitator';
+import { PaywallCache } from '../src/utils/cache';
+import { ResourceEntry } from '../src/utils/sui';
+import { X402_VERSION, SUI_EXACT_SCHEME } from '../src/utils/x402';
+import { FakeChain, DOMAIN, PACKAGE_ID, PASS_COUNTER_ID, PRICE_IN_MIST, RECEIVER } from './helpers/chain';
+
+function createFacilitator(options: FacilitatorOptions = {}): Facilitator {
+  const chain = new FakeChain();
+  return new Facilitator({
+    suiClient: chain.suiClient,
+    sealSuiClient: chain.sealSuiClient,
+    logger: 'silent',
+    ...options,
+  });
+}
+
+/**
+ * Verify request for DOMAIN/premium carrying a (never checked) pass proof
+ */
+function verifyRequest(extra: Partial<FacilitatorRequest['paymentRequirements']['extra']> = {}): FacilitatorRequest {
+  return {
+    x402Version: X402_VERSION,
+    paymentPayload: {
+      x402Version: X402_VERSION,
+      scheme: SUI_EXACT_SCHEME,
+      network: 'sui-testnet',
+      payload: { passId: '0x1', signer: '0x2', signature: 'sig', timestamp: '0' },
+    },
+    paymentRequirements: {
+      scheme: SUI_EXACT_SCHEME,
+      network: 'sui-testnet',
+      maxAmountRequired: PRICE_IN_MIST,
+      resource: `https://${DOMAIN}/premium`,
+      description: '',
+      mimeType: 'application/json',
+      payTo: RECEIVER,
+      maxTimeoutSeconds: 60,
+      asset: '0x2::sui::SUI',
+      extra: { packageId: PACKAGE_ID, passCounterId: PASS_COUNTER_ID, domain: DOMAIN, resource: '/premium', ...extra },
+    },
+  };
+}
+
+/**
+ * Serve the facilitator on an ephemeral port and POST a body to it
+ */
+async function post(facilitator: Facilitator, path: string, body: string, headers: Record<string, string> = {}) {
+  const server = createServer(facilitator.handler());
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  } finally {
+    server.close();
+  }
+}
+
+test('handler answers 401 when the authorize hook refuses the caller', async () => {
+  const facilitator = createFacilitator({
+    authorize: (req: IncomingMessage) => req.headers['x-facilitator-key'] === 'secret',
+  });
+
+  const refused = await post(facilitator, '/verify', JSON.stringify(verifyRequest()));
+  const allowed = await post(facilitator, '/verify', JSON.stringify(verifyRequest()), {
+    'x-facilitator-key': 'secret',
+  });
+
+  assert.equal(refused.status, 401);
+  assert.equal(refused.body.error, 'Unauthorized');
+  assert.equal(allowed.status, 200);
+});
+
+test('handler answers 500 when the authorize hook throws', async () => {
+  const facilitator = createFacilitator({
+    authorize: async () => {
+      throw new Error('key store unavailable');
+    },
+  });
+
+  const response = await post(facilitator, '/verify', JSON.stringify(verifyRequest()));
+
+  assert.equal(response.status, 500);
+  assert.equal(response.body.error, 'InternalServerError');
+});
+
+test('handler refuses bodies over 64 KiB with 413', async () => {
+  const response = await post(createFacilitator(), '/settle', JSON.stringify({ padding: 'x'.repeat(70 * 1024) }));
+
+  assert.equal(response.status, 413);
+  assert.equal(response.body.error, 'PayloadTooLarge');
+});
+
+test('requirements for a domain outside the allow-list are invalid', async () => {
+  const facilitator = createFacilitator({ domains: ['other.example.com'] });
+
+  const result = await facilitator.verify(verifyRequest());
+
+  assert.equal(result.isValid, false);
+  assert.equal(result.invalidReason, 'InvalidPaymentPayloadError');
+});
+
+test('requirements below the registry price or paying another receiver are refused', async () => {
+  const cache = new PaywallCache();
+  const entry: ResourceEntry = {
+    domain: DOMAIN,
+    resource: '/premium',
+    walrus_cid: '',
+    seal_policy: '',
+    price: (BigInt(PRICE_IN_MIST) * 2n).toString(),
+    receiver: RECEIVER,
+    max_uses: 5,
+    validity_duration: 0,
+    owner: RECEIVER,
+    created_at: 0,
+    active: true,
+    resource_id: `0x${'ef'.repeat(32)}`,
+  };
+  await cache.getResourceEntry(DOMAIN, '/premium', async () => entry);
+  const facilitator = createFacilitator({ cache });
+
+  const underpaid = await facilitator.verify(verifyRequest());
+  const request = verifyRequest();
+  request.paymentRequirements.maxAmountRequired = entry.price;
+  request.paymentRequirements.payTo = `0x${'12'.repeat(32)}`;
+  const redirected = await facilitator.verify(request);
+
+  assert.equal(underpaid.invalidReason, 'UnderpaidPassError');
+  assert.equal(redirected.invalidReason, 'UnderpaidPassError');
+});
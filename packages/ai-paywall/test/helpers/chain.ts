@@ -0,0 +1,339 @@
+// In-memory stand-in for the Sui RPC calls the paywall makes
+// AccessPasses live in a map; each one has a purchase_pass transaction paying RECEIVER
+
+import { SuiClient } from '@mysten/sui.js/client';
+import { SuiClient as SealSuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { TransactionBlock, Inputs } from '@mysten/sui.js/transactions';
+import { bcs } from '@mysten/sui.js/bcs';
+import { resolveNetworkConfig } from '../../src/config/networks';
+import { createSignMessage, SignedRequest, createSignedRequest } from '../../src/utils/signature';
+
+export const PACKAGE_ID = resolveNetworkConfig('testnet').packageId;
+export const PASS_COUNTER_ID = resolveNetworkConfig('testnet').passCounterId;
+export const REGISTRY_ID = resolveNetworkConfig('testnet').registryId;
+export const DOMAIN = 'www.example.com';
+export const RECEIVER = `0x${'ab'.repeat(32)}`;
+/** 0.1 SUI */
+export const PRICE = '0.1';
+export const PRICE_IN_MIST = '100000000';
+
+/**
+ * AccessPass fields as stored on-chain
+ */
+export interface FakePass {
+  pass_id: number;
+  owner: string;
+  domain: string;
+  resource: string;
+  remaining: number;
+  expiry: number;
+  nonce: string;
+  price_paid: string;
+}
+
+/** Registry table of domains, and the table of DOMAIN's resources */
+const RESOURCES_TABLE_ID = '0xresources';
+const DOMAIN_TABLE_ID = '0xdomain';
+
+/**
+ * Fake chain serving AccessPasses, their purchase transactions and the
+ * ResourceEntries registered for DOMAIN
+ * Signed purchase_pass transactions can be executed; executing one again
+ * returns the original effects, as Sui does
+ */
+export class FakeChain {
+  readonly passes = new Map<string, FakePass>();
+  /** Executed purchase and consume_pass transactions: digest -> pass ID */
+  readonly executed = new Map<string, string>();
+  /** Move type reported for a pass object (default: AccessPass of PACKAGE_ID) */
+  readonly objectTypes = new Map<string, string>();
+  /** price_paid reported by a pass's PassPurchased event (default: the pass's price_paid) */
+  readonly eventPrices = new Map<string, string>();
+  /** ResourceEntry fields by object ID */
+  readonly resourceEntries = new Map<string, Record<string, unknown>>();
+  private passCount = 0;
+
+  /**
+   * Record a pass bought by `owner` (default: 5 uses of DOMAIN/resource at PRICE)
+   * @returns The AccessPass object ID
+   */
+  addPass(owner: string, resource: string, fields: Partial<FakePass> = {}): string {
+    this.passCount += 1;
+    const id = `0x${this.passCount.toString(16).padStart(64, '0')}`;
+    this.passes.set(id, {
+      pass_id: this.passCount,
+      owner,
+      domain: DOMAIN,
+      resource,
+      remaining: 5,
+      expiry: 0,
+      nonce: `nonce-${this.passCount}`,
+      price_paid: PRICE_IN_MIST,
+      ...fields,
+    });
+    return id;
+  }
+
+  /**
+   * Register a ResourceEntry for DOMAIN/resource (default: PRICE paid to RECEIVER)
+   * @returns The ResourceEntry object ID
+   */
+  registerResource(resource: string, fields: Record<string, unknown> = {}): string {
+    const id = `0x${(this.resourceEntries.size + 1).toString(16).padStart(64, 'f')}`;
+    this.resourceEntries.set(id, {
+      domain: DOMAIN,
+      resource,
+      walrus_cid: '',
+      seal_policy: '',
+      price: PRICE_IN_MIST,
+      receiver: RECEIVER,
+      max_uses: 0,
+      validity_duration: 0,
+      owner: RECEIVER,
+      created_at: 0,
+      active: true,
+      ...fields,
+    });
+    return id;
+  }
+
+  /**
+   * Record the pass a signed purchase_pass transaction buys
+   */
+  private addPurchasedPass(txBytes: string): string {
+    const { sender, inputs } = TransactionBlock.from(txBytes).blockData;
+    const pure = (index: number) => Uint8Array.from((inputs[index].value as any).Pure);
+    return this.addPass(sender!, bcs.String.parse(pure(2)), {
+      remaining: Number(bcs.U64.parse(pure(3))),
+      nonce: bcs.String.parse(pure(5)),
+    });
+  }
+
+  /**
+   * Spend one use of the pass a signed consume_pass transaction targets
+   */
+  private consumePass(txBytes: string): string {
+    const { inputs } = TransactionBlock.from(txBytes).blockData;
+    const passId = (inputs[0].value as any).Object.Shared.objectId as string;
+    this.passes.get(passId)!.remaining -= 1;
+    return passId;
+  }
+
+  /** @mysten/sui.js client backed by this chain */
+  get suiClient(): SuiClient {
+    return this.client() as unknown as SuiClient;
+  }
+
+  /** @mysten/sui client backed by this chain */
+  get sealSuiClient(): SealSuiClient {
+    return this.client() as unknown as SealSuiClient;
+  }
+
+  private client() {
+    return {
+      getObject: async ({ id }: { id: string }) => {
+        if (id === REGISTRY_ID) {
+          const fields = { resources: { fields: { id: { id: RESOURCES_TABLE_ID } } } };
+          return { data: { objectId: id, content: { dataType: 'moveObject', fields } } };
+        }
+        const entry = this.resourceEntries.get(id);
+        if (entry) {
+          return { data: { objectId: id, content: { dataType: 'moveObject', fields: { ...entry } } } };
+        }
+
+        const pass = this.passes.get(id);
+        if (!pass) {
+          return { error: { code: 'notExists', object_id: id } };
+        }
+        return {
+          data: {
+            objectId: id,
+            type: this.objectTypes.get(id) ?? `${PACKAGE_ID}::paywall::AccessPass`,
+            content: { dataType: 'moveObject', fields: { ...pass } },
+          },
+        };
+      },
+      getDynamicFieldObject: async ({ parentId, name }: { parentId: string; name: { value: string } }) => {
+        const entryId = [...this.resourceEntries].find(([, entry]) => entry.resource === name.value)?.[0];
+        const value =
+          parentId === RESOURCES_TABLE_ID && name.value === DOMAIN && this.resourceEntries.size > 0
+            ? { fields: { id: { id: DOMAIN_TABLE_ID } } }
+            : parentId === DOMAIN_TABLE_ID
+              ? entryId
+              : undefined;
+        if (!value) {
+          return { error: { code: 'dynamicFieldNotFound', parent_object_id: parentId } };
+        }
+        return { data: { content: { dataType: 'moveObject', fields: { name: name.value, value } } } };
+      },
+      queryTransactionBlocks: async ({ filter }: { filter: { ChangedObject: string } }) => ({
+        data: this.passes.has(filter.ChangedObject)
+          ? [{ digest: `purchase-${filter.ChangedObject}` }]
+          : [],
+        hasNextPage: false,
+        nextCursor: null,
+      }),
+      executeTransactionBlock: async ({ transactionBlock }: { transactionBlock: string }) => {
+        const tx = TransactionBlock.from(transactionBlock);
+        const digest = await tx.getDigest();
+        const consume = tx.blockData.transactions.some(
+          (command) => command.kind === 'MoveCall' && command.target.endsWith('::consume_pass')
+        );
+        let passId = this.executed.get(digest);
+        if (!passId) {
+          passId = consume ? this.consumePass(transactionBlock) : this.addPurchasedPass(transactionBlock);
+          this.executed.set(digest, passId);
+        }
+        const pass = this.passes.get(passId)!;
+        if (consume) {
+          return {
+            digest,
+            effects: { status: { status: 'success' } },
+            events: [
+              {
+                type: `${PACKAGE_ID}::paywall::PassConsumed`,
+                parsedJson: { pass_id: String(pass.pass_id), remaining_after: String(pass.remaining) },
+              },
+            ],
+          };
+        }
+        return {
+          digest,
+          effects: { status: { status: 'success' } },
+          objectChanges: [
+            { type: 'created', objectType: `${PACKAGE_ID}::paywall::AccessPass`, objectId: passId },
+          ],
+          events: [
+            {
+              type: `${PACKAGE_ID}::paywall::PassPurchased`,
+              parsedJson: { pass_id: String(pass.pass_id), price_paid: pass.price_paid },
+            },
+          ],
+        };
+      },
+      getTransactionBlock: async ({ digest }: { digest: string }) => {
+        if (this.executed.has(digest)) {
+          return { digest };
+        }
+        const passId = digest.replace('purchase-', '');
+        const pass = this.passes.get(passId);
+        if (!pass) {
+          throw new Error(`Could not find the referenced transaction [TransactionDigest(${digest})]`);
+        }
+        return {
+          digest,
+          events: [
+            {
+              type: `${PACKAGE_ID}::paywall::PassPurchased`,
+              parsedJson: {
+                pass_id: String(pass.pass_id),
+                price_paid: this.eventPrices.get(passId) ?? pass.price_paid,
+              },
+            },
+          ],
+          transaction: {
+            data: {
+              transaction: {
+                kind: 'ProgrammableTransaction',
+                // purchase_pass(payment, domain, resource, remaining, expiry, nonce, receiver, counter)
+                inputs: [0, 1, 2, 3, 4, 5, RECEIVER, 7].map((value, index) =>
+                  index === 6 ? { type: 'pure', value } : { type: 'object' }
+                ),
+                transactions: [
+                  {
+                    MoveCall: {
+                      package: PACKAGE_ID,
+                      module: 'paywall',
+                      function: 'purchase_pass',
+                      arguments: [0, 1, 2, 3, 4, 5, 6, 7].map((index) => ({ Input: index })),
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        };
+      },
+    };
+  }
+}
+
+/**
+ * Sign (but do not execute) a purchase_pass transaction paying RECEIVER for DOMAIN/resource
+ */
+export async function signPurchase(
+  keypair: Ed25519Keypair,
+  resource: string,
+  nonce: string = 'nonce',
+  remaining: number = 5
+): Promise<{ transaction: string; signature: string }> {
+  const tx = new TransactionBlock();
+  tx.setSender(keypair.getPublicKey().toSuiAddress());
+  tx.setGasBudget(10000000);
+  tx.setGasPrice(1000);
+  tx.setGasPayment([
+    { objectId: `0x${'cd'.repeat(32)}`, version: '1', digest: '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi' },
+  ]);
+  const [paymentCoin] = tx.splitCoins(tx.gas, [tx.pure(PRICE_IN_MIST, 'u64')]);
+  const text = (value: string) => tx.pure(Array.from(new TextEncoder().encode(value)), 'vector<u8>');
+  tx.moveCall({
+    target: `${PACKAGE_ID}::paywall::purchase_pass`,
+    arguments: [
+      paymentCoin,
+      text(DOMAIN),
+      text(resource),
+      tx.pure(remaining, 'u64'),
+      tx.pure(0, 'u64'),
+      text(nonce),
+      tx.pure.address(RECEIVER),
+      tx.object(Inputs.SharedObjectRef({ objectId: PASS_COUNTER_ID, initialSharedVersion: 1, mutable: true })),
+    ],
+  });
+  const bytes = await tx.build();
+  const { signature } = await keypair.signTransaction(bytes);
+  return { transaction: Buffer.from(bytes).toString('base64'), signature };
+}
+
+/**
+ * Sign (but do not execute) a consume_pass transaction for a pass (relay mode)
+ */
+export async function signConsume(
+  keypair: Ed25519Keypair,
+  passId: string
+): Promise<{ 'x-consume-tx': string; 'x-consume-sig': string }> {
+  const tx = new TransactionBlock();
+  tx.setSender(keypair.getPublicKey().toSuiAddress());
+  tx.setGasBudget(10000000);
+  tx.setGasPrice(1000);
+  tx.setGasPayment([
+    { objectId: `0x${'cd'.repeat(32)}`, version: '1', digest: '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi' },
+  ]);
+  tx.moveCall({
+    target: `${PACKAGE_ID}::paywall::consume_pass`,
+    arguments: [tx.object(Inputs.SharedObjectRef({ objectId: passId, initialSharedVersion: 1, mutable: true }))],
+  });
+  const bytes = await tx.build();
+  const { signature } = await keypair.signTransaction(bytes);
+  return { 'x-consume-tx': Buffer.from(bytes).toString('base64'), 'x-consume-sig': signature };
+}
+
+/**
+ * Signed access headers (x-pass-id, x-signer, x-sig, x-ts) for a request
+ */
+export async function signAccess(
+  keypair: Ed25519Keypair,
+  passId: string,
+  resource: string,
+  request: SignedRequest = createSignedRequest('GET')
+): Promise<Record<string, string>> {
+  const timestamp = Date.now().toString();
+  const message = createSignMessage(passId, DOMAIN, resource, timestamp, request);
+  const { signature } = await keypair.signPersonalMessage(new TextEncoder().encode(message));
+  return {
+    'x-pass-id': passId,
+    'x-signer': keypair.getPublicKey().toSuiAddress(),
+    'x-sig': signature,
+    'x-ts': timestamp,
+  };
+}
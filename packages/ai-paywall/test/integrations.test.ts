@@ -0,0 +1,167 @@
+// axios and undici integrations against scripted responses, with a client whose
+// payments are counted instead of signed
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { PaywallClient, PaymentAttempt } from '../src/client';
+import { attachPaywallInterceptor, AxiosRequestConfigLike, AxiosResponseLike } from '../src/integrations/axios';
+import { createPaywallRequest, UndiciResponseDataLike } from '../src/integrations/undici';
+import { FakeChain, DOMAIN, PRICE, PRICE_IN_MIST, RECEIVER } from './helpers/chain';
+
+const TARGET = `https://${DOMAIN}/premium`;
+
+const CHALLENGE = {
+  status: 402,
+  paymentRequired: true,
+  price: PRICE,
+  priceInMist: PRICE_IN_MIST,
+  receiver: RECEIVER,
+  domain: DOMAIN,
+  resource: '/premium',
+  nonce: 'nonce',
+};
+
+/**
+ * Client that hands out numbered payment headers and counts what happens to them
+ */
+function createClient(payInRequest = false) {
+  const chain = new FakeChain();
+  const client = new PaywallClient({
+    privateKey: new Ed25519Keypair().getSecretKey(),
+    suiClient: chain.suiClient,
+    sealSuiClient: chain.sealSuiClient,
+    passSyncIntervalMs: 0,
+    logger: 'silent',
+  });
+  const payments = { prepared: 0, released: 0, completed: 0 };
+
+  const stub = client as any;
+  stub.preparePayment = async (): Promise<Partial<PaymentAttempt>> => {
+    payments.prepared += 1;
+    return {
+      payInRequest,
+      headers: { 'x-sig': `sig-${payments.prepared}` },
+      release: () => {
+        payments.released += 1;
+      },
+    };
+  };
+  stub.completePayment = async () => {
+    payments.completed += 1;
+  };
+  return { client, payments };
+}
+
+/**
+ * Status codes served in order: the first request gets the challenge
+ */
+function script(statuses: number[]) {
+  const sent: Array<string | undefined> = [];
+  const next = (sig: string | undefined) => {
+    sent.push(sig);
+    const status = statuses[sent.length - 1];
+    if (status === 0) {
+      throw new Error('socket hang up');
+    }
+    return { status, body: status === 402 ? CHALLENGE : { ok: true } };
+  };
+  return { sent, next };
+}
+
+/**
+ * Axios instance running requests through its response interceptors,
+ * rejecting non-2xx responses as axios does by default
+ */
+function createAxios(next: (sig: string | undefined) => { status: number; body: unknown }) {
+  const interceptors: Array<[(response: any) => any, (error: any) => any]> = [];
+  const axios = {
+    interceptors: {
+      response: {
+        use: (onFulfilled: any, onRejected: any) => interceptors.push([onFulfilled, onRejected]) - 1,
+        eject: () => undefined,
+      },
+    },
+    getUri: (config: AxiosRequestConfigLike) => config.url!,
+    request: (config: AxiosRequestConfigLike): Promise<any> => {
+      const sent = (async (): Promise<AxiosResponseLike> => {
+        const { status, body } = next((config.headers as Record<string, string> | undefined)?.['x-sig']);
+        const response = { status, data: body, headers: {}, config };
+        if (status < 200 || status >= 300) {
+          throw Object.assign(new Error(`Request failed with status code ${status}`), { response });
+        }
+        return response;
+      })();
+      return interceptors.reduce<Promise<any>>((promise, [onFulfilled, onRejected]) => promise.then(onFulfilled, onRejected), sent);
+    },
+  };
+  return axios;
+}
+
+/**
+ * undici request() serving the script
+ */
+function createRequest(next: (sig: string | undefined) => { status: number; body: unknown }) {
+  return async (_url: string | URL, options: { headers?: any } = {}): Promise<UndiciResponseDataLike> => {
+    const { status, body } = next(options.headers?.['x-sig']);
+    return { statusCode: status, headers: {}, body: { text: async () => JSON.stringify(body) } };
+  };
+}
+
+test('axios: the paid request is retried with fresh payment headers after a 5xx', async () => {
+  const { client, payments } = createClient();
+  const { sent, next } = script([402, 503, 200]);
+  const axios = createAxios(next);
+  attachPaywallInterceptor(axios, client, { retries: 2 });
+
+  const response = await axios.request({ method: 'get', url: TARGET });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(sent, [undefined, 'sig-1', 'sig-2']);
+  assert.deepEqual(payments, { prepared: 2, released: 1, completed: 1 });
+});
+
+test('axios: without retries a failed paid request reaches the caller', async () => {
+  const { client, payments } = createClient();
+  const { sent, next } = script([402, 0, 200]);
+  const axios = createAxios(next);
+  attachPaywallInterceptor(axios, client);
+
+  await assert.rejects(axios.request({ method: 'get', url: TARGET }), /socket hang up/);
+  assert.equal(sent.length, 2);
+  assert.deepEqual(payments, { prepared: 1, released: 1, completed: 0 });
+});
+
+test('undici: the paid request is retried with fresh payment headers after a network error', async () => {
+  const { client, payments } = createClient();
+  const { sent, next } = script([402, 0, 200]);
+  const request = createPaywallRequest(client, createRequest(next), { retries: 2 });
+
+  const response = await request(TARGET);
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(sent, [undefined, 'sig-1', 'sig-2']);
+  assert.deepEqual(payments, { prepared: 2, released: 1, completed: 1 });
+});
+
+test('undici: retries stop after the configured attempts', async () => {
+  const { client, payments } = createClient();
+  const { sent, next } = script([402, 502, 502, 200]);
+  const request = createPaywallRequest(client, createRequest(next), { retries: 2 });
+
+  const response = await request(TARGET);
+
+  assert.equal(response.statusCode, 502);
+  assert.equal(sent.length, 3);
+  assert.deepEqual(payments, { prepared: 2, released: 2, completed: 0 });
+});
+
+test('undici: a purchase sent in the request is never retried', async () => {
+  const { client, payments } = createClient(true);
+  const { sent, next } = script([402, 0, 200]);
+  const request = createPaywallRequest(client, createRequest(next), { retries: 3 });
+
+  await assert.rejects(request(TARGET), /socket hang up/);
+  assert.equal(sent.length, 2);
+  assert.deepEqual(payments, { prepared: 1, released: 1, completed: 0 });
+});
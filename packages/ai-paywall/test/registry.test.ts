@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SuiClient } from '@mysten/sui.js/client';
+import { fetchResourceEntry } from '../src/utils/sui';
+import { PaywallCache } from '../src/utils/cache';
+import { FakeChain, DOMAIN, PACKAGE_ID, REGISTRY_ID } from './helpers/chain';
+
+/**
+ * Chain whose RPC calls fail while `down` is set
+ */
+function createFlakyChain() {
+  const chain = new FakeChain();
+  const state = { down: false };
+  const client = chain.suiClient as any;
+  const flaky = Object.fromEntries(
+    Object.entries(client).map(([name, method]) => [
+      name,
+      async (...args: unknown[]) => {
+        if (state.down) {
+          throw new Error('fetch failed');
+        }
+        return (method as (...args: unknown[]) => unknown)(...args);
+      },
+    ])
+  );
+  return { chain, state, client: flaky as unknown as SuiClient };
+}
+
+const lookup = (client: SuiClient, resource: string) => () =>
+  fetchResourceEntry(REGISTRY_ID, PACKAGE_ID, DOMAIN, resource, client);
+
+test('an unregistered resource is null', async () => {
+  const { client } = createFlakyChain();
+
+  assert.equal(await lookup(client, '/premium')(), null);
+});
+
+test('RPC failures are thrown, not reported as an unregistered resource', async () => {
+  const { chain, state, client } = createFlakyChain();
+  chain.registerResource('/premium');
+  state.down = true;
+
+  await assert.rejects(lookup(client, '/premium')(), /fetch failed/);
+});
+
+test('the cache does not remember a failed lookup', async () => {
+  const { chain, state, client } = createFlakyChain();
+  const entryId = chain.registerResource('/premium');
+  const cache = new PaywallCache();
+
+  state.down = true;
+  await assert.rejects(cache.getResourceEntry(DOMAIN, '/premium', lookup(client, '/premium')));
+  state.down = false;
+  const entry = await cache.getResourceEntry(DOMAIN, '/premium', lookup(client, '/premium'));
+
+  assert.equal(entry?.resource_id, entryId);
+});
+
+test('a missing registry is an error, not an unregistered resource', async () => {
+  const { client } = createFlakyChain();
+
+  await assert.rejects(
+    fetchResourceEntry(`0x${'9'.repeat(64)}`, PACKAGE_ID, DOMAIN, '/premium', client),
+    /Registry .* not found/
+  );
+});
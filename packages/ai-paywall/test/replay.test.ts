@@ -0,0 +1,234 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { PaywallCore } from '../src/core';
+import { PaywallOptions } from '../src/types';
+import { MemoryReplayStore } from '../src/utils/replay';
+import { encodePaymentHeader, X402_VERSION, SUI_EXACT_SCHEME } from '../src/utils/x402';
+import { FakeChain, DOMAIN, PRICE, RECEIVER, signAccess, signConsume, signPurchase } from './helpers/chain';
+
+function createCore(chain: FakeChain, options: Partial<PaywallOptions> = {}): PaywallCore {
+  return new PaywallCore({
+    price: PRICE,
+    receiver: RECEIVER,
+    domain: DOMAIN,
+    suiClient: chain.suiClient,
+    sealSuiClient: chain.sealSuiClient,
+    logger: 'silent',
+    ...options,
+  });
+}
+
+/**
+ * X-PAYMENT header carrying a signed purchase_pass transaction
+ */
+async function purchaseHeaders(
+  keypair: Ed25519Keypair,
+  resource: string,
+  remaining?: number
+): Promise<Record<string, string>> {
+  return {
+    'x-payment': encodePaymentHeader({
+      x402Version: X402_VERSION,
+      scheme: SUI_EXACT_SCHEME,
+      network: 'sui-testnet',
+      payload: await signPurchase(keypair, resource, 'nonce', remaining),
+    }),
+  };
+}
+
+test('a replayed signed request is denied with 403', async () => {
+  const chain = new FakeChain();
+  const keypair = new Ed25519Keypair();
+  const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+  const core = createCore(chain);
+
+  const headers = await signAccess(keypair, passId, '/premium');
+  const first = await core.evaluate({ method: 'GET', path: '/premium', headers });
+  assert.equal(first.type, 'allow');
+
+  const replayed = await core.evaluate({ method: 'GET', path: '/premium', headers: { ...headers } });
+  assert.equal(replayed.type, 'deny');
+  assert.equal(replayed.type === 'deny' && replayed.status, 403);
+  assert.equal(replayed.type === 'deny' && replayed.body.error, 'ReplayDetectedError');
+});
+
+test('a freshly signed request with the same pass is allowed', async () => {
+  const chain = new FakeChain();
+  const keypair = new Ed25519Keypair();
+  const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+  const core = createCore(chain);
+
+  const first = await core.evaluate({
+    method: 'GET',
+    path: '/premium',
+    headers: await signAccess(keypair, passId, '/premium'),
+  });
+  // Ed25519 signatures are deterministic: sign a different x-ts
+  await new Promise((resolve) => setTimeout(resolve, 2));
+  const second = await core.evaluate({
+    method: 'GET',
+    path: '/premium',
+    headers: await signAccess(keypair, passId, '/premium'),
+  });
+
+  assert.equal(first.type, 'allow');
+  assert.equal(second.type, 'allow');
+});
+
+test('a flood of 402 challenges does not push claimed signatures out of the replay store', async () => {
+  const chain = new FakeChain();
+  const keypair = new Ed25519Keypair();
+  const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+  const core = createCore(chain, { replayProtection: { maxEntries: 5 } });
+
+  const headers = await signAccess(keypair, passId, '/premium');
+  assert.equal((await core.evaluate({ method: 'GET', path: '/premium', headers })).type, 'allow');
+  for (let i = 0; i < 20; i++) {
+    const challenge = await core.evaluate({ method: 'GET', path: '/premium', headers: {} });
+    assert.equal(challenge.type, 'challenge');
+  }
+
+  const replayed = await core.evaluate({ method: 'GET', path: '/premium', headers: { ...headers } });
+  assert.equal(replayed.type === 'deny' && replayed.status, 403);
+  assert.equal(replayed.type === 'deny' && replayed.body.error, 'ReplayDetectedError');
+});
+
+test('a full store that keeps live entries refuses new keys instead of evicting', async () => {
+  const store = new MemoryReplayStore(2, false);
+  await store.setIfAbsent('sig:a', 'pass', 60_000);
+  await store.setIfAbsent('sig:b', 'pass', 60_000);
+
+  await assert.rejects(store.setIfAbsent('sig:c', 'pass', 60_000), /full/);
+  assert.equal(await store.setIfAbsent('sig:a', 'pass', 60_000), false);
+  assert.equal(await store.get('sig:c'), null);
+});
+
+test('replay protection can be disabled', async () => {
+  const chain = new FakeChain();
+  const keypair = new Ed25519Keypair();
+  const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+  const core = createCore(chain, { replayProtection: false });
+
+  const headers = await signAccess(keypair, passId, '/premium');
+  const first = await core.evaluate({ method: 'GET', path: '/premium', headers });
+  const second = await core.evaluate({ method: 'GET', path: '/premium', headers });
+
+  assert.equal(first.type, 'allow');
+  assert.equal(second.type, 'allow');
+});
+
+test('a replayed X-PAYMENT purchase is denied with 403', async () => {
+  const chain = new FakeChain();
+  const core = createCore(chain);
+  const headers = await purchaseHeaders(new Ed25519Keypair(), '/premium');
+
+  const first = await core.evaluate({ method: 'GET', path: '/premium', headers });
+  assert.equal(first.type, 'allow');
+
+  const replayed = await core.evaluate({ method: 'GET', path: '/premium', headers: { ...headers } });
+  assert.equal(replayed.type === 'deny' && replayed.status, 403);
+  assert.equal(replayed.type === 'deny' && replayed.body.error, 'ReplayDetectedError');
+  assert.equal(chain.executed.size, 1);
+});
+
+test('a replayed X-PAYMENT purchase is denied with replay protection disabled', async () => {
+  const chain = new FakeChain();
+  const core = createCore(chain, { replayProtection: false });
+  const headers = await purchaseHeaders(new Ed25519Keypair(), '/premium');
+
+  const first = await core.evaluate({ method: 'GET', path: '/premium', headers });
+  const replayed = await core.evaluate({ method: 'GET', path: '/premium', headers });
+
+  assert.equal(first.type, 'allow');
+  assert.equal(replayed.type === 'deny' && replayed.status, 403);
+  assert.equal(replayed.type === 'deny' && replayed.body.error, 'ReplayDetectedError');
+});
+
+test('concurrent copies of one X-PAYMENT purchase are served once', async () => {
+  const chain = new FakeChain();
+  const core = createCore(chain, { replayProtection: false });
+  const headers = await purchaseHeaders(new Ed25519Keypair(), '/premium');
+
+  const decisions = await Promise.all(
+    Array.from({ length: 5 }, () => core.evaluate({ method: 'GET', path: '/premium', headers }))
+  );
+
+  assert.equal(decisions.filter((decision) => decision.type === 'allow').length, 1);
+  assert.equal(decisions.filter((decision) => decision.type === 'deny' && decision.status === 403).length, 4);
+});
+
+test('an X-PAYMENT purchase the chain already executed is denied after a restart', async () => {
+  const chain = new FakeChain();
+  const headers = await purchaseHeaders(new Ed25519Keypair(), '/premium');
+
+  const first = await createCore(chain).evaluate({ method: 'GET', path: '/premium', headers });
+  // A new instance has an empty replay store
+  const replayed = await createCore(chain).evaluate({ method: 'GET', path: '/premium', headers });
+
+  assert.equal(first.type, 'allow');
+  assert.equal(replayed.type === 'deny' && replayed.status, 403);
+  assert.equal(replayed.type === 'deny' && replayed.body.error, 'ReplayDetectedError');
+});
+
+test('a relayed consume_pass transaction reused with a fresh signature is denied with 403', async () => {
+  const chain = new FakeChain();
+  const keypair = new Ed25519Keypair();
+  const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+  const core = createCore(chain, { consumption: 'relay' });
+  const consume = await signConsume(keypair, passId);
+
+  const first = await core.evaluate({
+    method: 'GET',
+    path: '/premium',
+    headers: { ...(await signAccess(keypair, passId, '/premium')), ...consume },
+  });
+  await new Promise((resolve) => setTimeout(resolve, 2));
+  const reused = await core.evaluate({
+    method: 'GET',
+    path: '/premium',
+    headers: { ...(await signAccess(keypair, passId, '/premium')), ...consume },
+  });
+
+  assert.equal(first.type, 'allow');
+  assert.equal(reused.type === 'deny' && reused.status, 403);
+  assert.equal(reused.type === 'deny' && reused.body.error, 'ReplayDetectedError');
+  assert.equal(chain.passes.get(passId)!.remaining, 4);
+});
+
+test('concurrent requests relaying one consume_pass transaction are served once', async () => {
+  const chain = new FakeChain();
+  const keypair = new Ed25519Keypair();
+  const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+  const core = createCore(chain, { consumption: 'relay', replayProtection: false });
+  const headers = { ...(await signAccess(keypair, passId, '/premium')), ...(await signConsume(keypair, passId)) };
+
+  const decisions = await Promise.all(
+    Array.from({ length: 3 }, () => core.evaluate({ method: 'GET', path: '/premium', headers }))
+  );
+
+  assert.equal(decisions.filter((decision) => decision.type === 'allow').length, 1);
+  assert.equal(decisions.filter((decision) => decision.type === 'deny' && decision.status === 403).length, 2);
+});
+
+test('in relay mode a pass bought with the request counts that request as its first use', async () => {
+  const chain = new FakeChain();
+  const core = createCore(chain, { consumption: 'relay', routes: { '/premium': { price: PRICE, maxUses: 5 } } });
+
+  const fullPass = await core.evaluate({
+    method: 'GET',
+    path: '/premium',
+    headers: await purchaseHeaders(new Ed25519Keypair(), '/premium', 5),
+  });
+  const passWithoutFirstUse = await core.evaluate({
+    method: 'GET',
+    path: '/premium',
+    headers: await purchaseHeaders(new Ed25519Keypair(), '/premium', 4),
+  });
+
+  // Refused before submission, so the buyer is not charged for it
+  assert.equal(fullPass.type === 'deny' && fullPass.status, 403);
+  assert.equal(fullPass.type === 'deny' && fullPass.body.error, 'PurchaseSettlementError');
+  assert.equal(chain.executed.size, 1);
+  assert.equal(passWithoutFirstUse.type, 'allow');
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SuiClient } from '@mysten/sui.js/client';
+import { fetchTableEntryByString } from '../src/utils/sui';
+
+const TABLE_ID = '0xtable';
+
+/**
+ * Table of string keys, served two dynamic fields per page
+ * `directLookup` decides what getDynamicFieldObject does
+ */
+function createTableClient(
+  keys: string[],
+  directLookup: 'found' | 'notFound' | 'unsupported'
+) {
+  const calls = { direct: 0, pages: [] as Array<string | null>, objects: [] as string[] };
+  const fieldsOf = (key: string) => ({ name: key, value: `value-of-${key}` });
+
+  const client = {
+    getDynamicFieldObject: async ({ parentId, name }: { parentId: string; name: { type: string; value: string } }) => {
+      calls.direct += 1;
+      assert.equal(parentId, TABLE_ID);
+      assert.equal(name.type, '0x1::string::String');
+      if (directLookup === 'unsupported') {
+        throw new Error('Method not found');
+      }
+      if (directLookup === 'notFound' || !keys.includes(name.value)) {
+        return { error: { code: 'dynamicFieldNotFound', parent_object_id: parentId } };
+      }
+      return { data: { objectId: `0xfield-${name.value}`, content: { dataType: 'moveObject', fields: fieldsOf(name.value) } } };
+    },
+    getDynamicFields: async ({ cursor }: { parentId: string; cursor: string | null }) => {
+      calls.pages.push(cursor);
+      const start = cursor ? Number(cursor) : 0;
+      return {
+        data: keys.slice(start, start + 2).map((key) => ({
+          name: { type: '0x1::string::String', value: key },
+          objectId: `0xfield-${key}`,
+        })),
+        hasNextPage: start + 2 < keys.length,
+        nextCursor: start + 2 < keys.length ? String(start + 2) : null,
+      };
+    },
+    getObject: async ({ id }: { id: string }) => {
+      calls.objects.push(id);
+      const key = id.replace('0xfield-', '');
+      return { data: { objectId: id, content: { dataType: 'moveObject', fields: fieldsOf(key) } } };
+    },
+  };
+  return { client: client as unknown as SuiClient, calls };
+}
+
+test('looks the key up directly without paginating', async () => {
+  const { client, calls } = createTableClient(['a.com', 'b.com', 'c.com'], 'found');
+
+  const fields = await fetchTableEntryByString(client, TABLE_ID, 'c.com');
+
+  assert.deepEqual(fields, { name: 'c.com', value: 'value-of-c.com' });
+  assert.equal(calls.direct, 1);
+  assert.deepEqual(calls.pages, []);
+});
+
+test('returns null for a missing key without paginating', async () => {
+  const { client, calls } = createTableClient(['a.com', 'b.com', 'c.com'], 'notFound');
+
+  assert.equal(await fetchTableEntryByString(client, TABLE_ID, 'd.com'), null);
+  assert.deepEqual(calls.pages, []);
+});
+
+test('falls back to paginating when the direct lookup fails', async () => {
+  const { client, calls } = createTableClient(['a.com', 'b.com', 'c.com', 'd.com', 'e.com'], 'unsupported');
+
+  const fields = await fetchTableEntryByString(client, TABLE_ID, 'e.com');
+
+  assert.deepEqual(fields, { name: 'e.com', value: 'value-of-e.com' });
+  assert.deepEqual(calls.pages, [null, '2', '4']);
+  assert.deepEqual(calls.objects, ['0xfield-e.com']);
+});
+
+test('stops paginating at the page holding the key', async () => {
+  const { client, calls } = createTableClient(['a.com', 'b.com', 'c.com', 'd.com', 'e.com'], 'unsupported');
+
+  await fetchTableEntryByString(client, TABLE_ID, 'b.com');
+
+  assert.deepEqual(calls.pages, [null]);
+});
+
+test('returns null when no page holds the key', async () => {
+  const { client, calls } = createTableClient(['a.com', 'b.com', 'c.com'], 'unsupported');
+
+  assert.equal(await fetchTableEntryByString(client, TABLE_ID, 'z.com'), null);
+  assert.deepEqual(calls.pages, [null, '2']);
+  assert.deepEqual(calls.objects, []);
+});
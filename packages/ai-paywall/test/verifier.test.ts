@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { PaywallCore } from '../src/core';
+import { PaywallOptions } from '../src/types';
+import { FakeChain, DOMAIN, PRICE, PRICE_IN_MIST, RECEIVER, signAccess } from './helpers/chain';
+
+/**
+ * Paywall on DOMAIN/premium and a pass for it, signed by its owner
+ */
+async function setup(options: Partial<PaywallOptions> = {}) {
+  const chain = new FakeChain();
+  const keypair = new Ed25519Keypair();
+  const passId = chain.addPass(keypair.getPublicKey().toSuiAddress(), '/premium');
+  const core = new PaywallCore({
+    price: PRICE,
+    receiver: RECEIVER,
+    domain: DOMAIN,
+    suiClient: chain.suiClient,
+    sealSuiClient: chain.sealSuiClient,
+    logger: 'silent',
+    ...options,
+  });
+  const evaluate = async () =>
+    core.evaluate({ method: 'GET', path: '/premium', headers: await signAccess(keypair, passId, '/premium') });
+  return { chain, passId, evaluate };
+}
+
+test('a pass with the expected fields is allowed', async () => {
+  const { evaluate } = await setup();
+
+  assert.equal((await evaluate()).type, 'allow');
+});
+
+test('an AccessPass look-alike from another package is refused', async () => {
+  const { chain, passId, evaluate } = await setup();
+  chain.objectTypes.set(passId, `0x${'cd'.repeat(32)}::paywall::AccessPass`);
+
+  const decision = await evaluate();
+
+  assert.equal(decision.type === 'deny' && decision.status, 403);
+  assert.equal(decision.type === 'deny' && decision.body.error, 'InvalidPassError');
+});
+
+test('a pass whose PassPurchased event paid less than the price is refused', async () => {
+  const { chain, passId, evaluate } = await setup();
+  chain.eventPrices.set(passId, (BigInt(PRICE_IN_MIST) - 1n).toString());
+
+  const decision = await evaluate();
+
+  assert.equal(decision.type === 'deny' && decision.status, 403);
+  assert.equal(decision.type === 'deny' && decision.body.error, 'UnderpaidPassError');
+});
+
+test('chain lookups log through the paywall logger instead of the console', async (t) => {
+  const messages: string[] = [];
+  const record = (_fields: unknown, message: string) => {
+    messages.push(message);
+  };
+  const consoleLog = t.mock.method(console, 'log');
+  const { evaluate } = await setup({ logger: { debug: record, info: record, warn: record, error: record } });
+
+  assert.equal((await evaluate()).type, 'allow');
+
+  assert.ok(messages.includes('Fetching AccessPass object'));
+  assert.ok(messages.includes('Resource match check'));
+  assert.equal(consoleLog.mock.callCount(), 0);
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventId, SuiClient, SuiEvent } from '@mysten/sui.js/client';
+import { PaywallEventWatcher, MemoryCursorStore } from '../src/utils/watcher';
+import { PaywallCache } from '../src/utils/cache';
+import { DOMAIN, PACKAGE_ID } from './helpers/chain';
+
+const START: EventId = { txDigest: 'start', eventSeq: '0' };
+
+interface Purchase {
+  passId: string;
+  passNumber: number;
+  domain: string;
+  /** Other passes created by the same transaction */
+  siblings?: { passId: string; passNumber: number }[];
+}
+
+/**
+ * Client serving PassPurchased events and counting the lookups they cause
+ */
+function createEventClient(purchases: Purchase[]) {
+  const calls = { getTransactionBlock: 0, multiGetObjects: 0 };
+  const passType = `${PACKAGE_ID}::paywall::AccessPass`;
+  const numbers = new Map<string, number>();
+  const transactions = new Map<string, string[]>();
+
+  const events: SuiEvent[] = purchases.map((purchase, index) => {
+    const txDigest = `tx${index}`;
+    const created = [purchase, ...(purchase.siblings || [])];
+    for (const pass of created) {
+      numbers.set(pass.passId, pass.passNumber);
+    }
+    transactions.set(txDigest, created.map((pass) => pass.passId));
+    return {
+      id: { txDigest, eventSeq: '0' },
+      packageId: PACKAGE_ID,
+      transactionModule: 'paywall',
+      sender: `0x${'11'.repeat(32)}`,
+      type: `${PACKAGE_ID}::paywall::PassPurchased`,
+      parsedJson: {
+        pass_id: String(purchase.passNumber),
+        owner: `0x${'11'.repeat(32)}`,
+        domain: purchase.domain,
+        resource: '/premium',
+        price_paid: '100000000',
+        remaining: '5',
+        expiry: '0',
+        nonce: `nonce-${index}`,
+      },
+      bcs: '',
+    } as SuiEvent;
+  });
+
+  const client = {
+    async queryEvents({ query, cursor }: any) {
+      const data = query.MoveModule.module === 'paywall' && cursor ? events : [];
+      return { data, nextCursor: data.length ? data[data.length - 1].id : null, hasNextPage: false };
+    },
+    async getTransactionBlock({ digest }: any) {
+      calls.getTransactionBlock++;
+      return {
+        digest,
+        objectChanges: transactions.get(digest)!.map((objectId) => ({
+          type: 'created',
+          objectId,
+          objectType: passType,
+        })),
+      };
+    },
+    async multiGetObjects({ ids }: any) {
+      calls.multiGetObjects++;
+      return ids.map((objectId: string) => ({
+        data: {
+          objectId,
+          content: { dataType: 'moveObject', fields: { pass_id: String(numbers.get(objectId)) } },
+        },
+      }));
+    },
+  };
+
+  return { calls, client: client as unknown as SuiClient };
+}
+
+async function pollOnce(purchases: Purchase[], domains?: string[]) {
+  const { calls, client } = createEventClient(purchases);
+  const cursorStore = new MemoryCursorStore();
+  await cursorStore.save(`${PACKAGE_ID}::paywall`, START);
+  const cache = new PaywallCache();
+  const watcher = new PaywallEventWatcher({
+    cache,
+    cursorStore,
+    suiClient: client,
+    packageId: PACKAGE_ID,
+    domains,
+    logger: 'silent',
+  });
+
+  await watcher.poll();
+  return { calls, cache };
+}
+
+test('purchases for other domains are skipped without fetching their transactions', async () => {
+  const { calls, cache } = await pollOnce(
+    [
+      { passId: '0xa1', passNumber: 1, domain: DOMAIN },
+      { passId: '0xb2', passNumber: 2, domain: 'other.example.com' },
+      { passId: '0xb3', passNumber: 3, domain: 'other.example.com' },
+    ],
+    [DOMAIN]
+  );
+
+  assert.equal(calls.getTransactionBlock, 1);
+  assert.equal((await cache.peekAccessPass('0xa1'))?.domain, DOMAIN);
+  assert.equal(await cache.peekAccessPass('0xb2'), undefined);
+  assert.equal(await cache.peekAccessPass('0xb3'), undefined);
+});
+
+test('a transaction that created one pass needs no object lookup', async () => {
+  const { calls, cache } = await pollOnce([{ passId: '0xa1', passNumber: 1, domain: DOMAIN }]);
+
+  assert.equal(calls.getTransactionBlock, 1);
+  assert.equal(calls.multiGetObjects, 0);
+  assert.equal((await cache.peekAccessPass('0xa1'))?.pass_id, 1);
+});
+
+test('passes bought together are matched on their pass number', async () => {
+  const { calls, cache } = await pollOnce([
+    {
+      passId: '0xa2',
+      passNumber: 2,
+      domain: DOMAIN,
+      siblings: [{ passId: '0xa1', passNumber: 1 }],
+    },
+  ]);
+
+  assert.equal(calls.multiGetObjects, 1);
+  assert.equal((await cache.peekAccessPass('0xa2'))?.pass_id, 2);
+  assert.equal(await cache.peekAccessPass('0xa1'), undefined);
+});